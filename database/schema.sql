@@ -5,6 +5,18 @@ CREATE DATABASE IF NOT EXISTS wallspie_vp CHARACTER SET utf8mb4 COLLATE utf8mb4_
   USE wallspie_vp;
 
 -- Drop tables if exists (for clean setup)
+DROP TABLE IF EXISTS resolution_presets;
+DROP TABLE IF EXISTS processing_jobs;
+DROP TABLE IF EXISTS wallpaper_metadata;
+DROP TABLE IF EXISTS wallpaper_colors;
+DROP TABLE IF EXISTS wallpaper_renders;
+DROP TABLE IF EXISTS wallpaper_formats;
+DROP TABLE IF EXISTS wallpaper_replicas;
+DROP TABLE IF EXISTS integrity_issues;
+DROP TABLE IF EXISTS integrity_scans;
+DROP TABLE IF EXISTS upload_sessions;
+DROP TABLE IF EXISTS storage_migration_items;
+DROP TABLE IF EXISTS storage_migrations;
 DROP TABLE IF EXISTS analytics_daily;
 DROP TABLE IF EXISTS downloads;
 DROP TABLE IF EXISTS favorites;
@@ -45,6 +57,9 @@ CREATE TABLE storage_providers (
     is_active TINYINT NOT NULL DEFAULT 0,
     priority INT NOT NULL DEFAULT 0 COMMENT 'Higher priority = used first',
     config JSON COMMENT 'Provider-specific configuration',
+    storage_cost_per_gb DECIMAL(10,4) NOT NULL DEFAULT 0 COMMENT 'Price per GB-month stored',
+    egress_cost_per_gb DECIMAL(10,4) NOT NULL DEFAULT 0 COMMENT 'Price per GB served',
+    is_mirror TINYINT NOT NULL DEFAULT 0 COMMENT '1=every upload is also copied here',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     INDEX idx_active_priority (is_active, priority)
@@ -80,16 +95,30 @@ CREATE TABLE wallpapers (
     slug VARCHAR(500) UNIQUE NOT NULL,
     description TEXT,
     original_url VARCHAR(1000) NOT NULL COMMENT 'Highest quality image URL',
-    thumbnail_url VARCHAR(1000) NOT NULL COMMENT 'Small preview image',
+    thumbnail_url VARCHAR(1000) NOT NULL COMMENT 'Small preview image (the original while processing)',
     medium_url VARCHAR(1000) COMMENT 'Medium size for listings',
+    original_public_id VARCHAR(500) COMMENT 'Storage provider object key',
+    thumbnail_public_id VARCHAR(500),
+    medium_public_id VARCHAR(500),
     primary_color VARCHAR(7) COMMENT 'Hex color for placeholders',
+    blurhash VARCHAR(100) COMMENT 'BlurHash of the thumbnail',
+    lqip TEXT COMMENT 'Tiny base64 data URI of the thumbnail',
+    content_hash CHAR(64) COMMENT 'SHA-256 of the decoded original pixels',
+    perceptual_hash BIGINT UNSIGNED COMMENT '64-bit dHash for near-duplicate search (XOR + BIT_COUNT)',
+    skipped_resolutions JSON COMMENT 'Presets not generated and why',
+    focal_point JSON COMMENT 'Normalized point or box kept in frame by crops',
+    crop_revision INT NOT NULL DEFAULT 0 COMMENT 'Bumped when crops are regenerated; part of their storage keys',
     tags JSON COMMENT 'Array of tags for search',
     source ENUM('admin') NOT NULL DEFAULT 'admin',
     source_id VARCHAR(255) COMMENT 'External ID if from Unsplash',
     uploaded_by INT NOT NULL,
     storage_provider_id INT NOT NULL,
     is_featured TINYINT NOT NULL DEFAULT 0,
+    is_animated TINYINT NOT NULL DEFAULT 0 COMMENT 'Animated WebP/GIF: resolutions are animated WebP, thumbnail and medium the first frame',
+    frame_count INT NULL,
+    animation_duration INT NULL COMMENT 'One loop, in milliseconds',
     is_active TINYINT NOT NULL DEFAULT 1,
+    processing_status ENUM('processing', 'ready', 'failed') NOT NULL DEFAULT 'ready' COMMENT 'Derived files generated by a processing job',
     view_count INT NOT NULL DEFAULT 0,
     download_count INT NOT NULL DEFAULT 0,
     favorite_count INT NOT NULL DEFAULT 0,
@@ -102,6 +131,9 @@ CREATE TABLE wallpapers (
     INDEX idx_source (source),
     INDEX idx_created (created_at DESC),
     INDEX idx_downloads (download_count DESC),
+    INDEX idx_content_hash (content_hash),
+    INDEX idx_processing (processing_status),
+    INDEX idx_animated (is_animated),
     FULLTEXT idx_search (title, description)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
@@ -131,6 +163,7 @@ CREATE TABLE wallpaper_resolutions (
     resolution_name VARCHAR(50) NOT NULL COMMENT 'e.g., "1080p", "4K", "Mobile"',
     file_size BIGINT COMMENT 'Size in bytes',
     url VARCHAR(1000) NOT NULL,
+    public_id VARCHAR(500) COMMENT 'Storage provider object key',
     is_original TINYINT NOT NULL DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
@@ -149,6 +182,7 @@ CREATE TABLE downloads (
     ip_address VARCHAR(45),
     user_agent TEXT,
     device_type ENUM('mobile', 'tablet', 'desktop', 'unknown') DEFAULT 'unknown',
+    format VARCHAR(10) COMMENT 'File format served, e.g. jpeg, webp, avif',
     downloaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
@@ -189,21 +223,294 @@ CREATE TABLE analytics_daily (
     INDEX idx_date (date DESC)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- =====================================================
+-- 10. STORAGE_MIGRATIONS TABLE (Provider-to-provider copy jobs)
+-- =====================================================
+CREATE TABLE storage_migrations (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    source_provider_id INT COMMENT 'NULL = every provider except the target',
+    target_provider_id INT NOT NULL,
+    status ENUM('pending', 'running', 'completed', 'failed', 'cancelled') NOT NULL DEFAULT 'pending',
+    dry_run TINYINT NOT NULL DEFAULT 0,
+    total_wallpapers INT NOT NULL DEFAULT 0,
+    processed_wallpapers INT NOT NULL DEFAULT 0,
+    failed_wallpapers INT NOT NULL DEFAULT 0,
+    last_wallpaper_id INT NOT NULL DEFAULT 0 COMMENT 'Resume checkpoint',
+    error TEXT,
+    started_by INT NOT NULL,
+    started_at TIMESTAMP NULL,
+    completed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (source_provider_id) REFERENCES storage_providers(id),
+    FOREIGN KEY (target_provider_id) REFERENCES storage_providers(id),
+    FOREIGN KEY (started_by) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 11. STORAGE_MIGRATION_ITEMS TABLE (Per-wallpaper report)
+-- =====================================================
+CREATE TABLE storage_migration_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    migration_id INT NOT NULL,
+    wallpaper_id INT NOT NULL,
+    status ENUM('migrated', 'planned', 'skipped', 'failed') NOT NULL COMMENT 'planned = dry run',
+    report JSON COMMENT 'Per-asset copy and verification details',
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (migration_id) REFERENCES storage_migrations(id) ON DELETE CASCADE,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_migration_wallpaper (migration_id, wallpaper_id),
+    INDEX idx_migration_status (migration_id, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 12. UPLOAD_SESSIONS TABLE (Direct-to-storage uploads)
+-- =====================================================
+CREATE TABLE upload_sessions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    storage_provider_id INT NOT NULL,
+    public_id VARCHAR(500) NOT NULL COMMENT 'Object key the client uploads to',
+    content_type VARCHAR(100) NOT NULL,
+    max_size BIGINT NOT NULL,
+    status ENUM('pending', 'finalizing', 'finalized', 'expired') NOT NULL DEFAULT 'pending',
+    wallpaper_id INT NULL COMMENT 'Set once finalized',
+    uploaded_by INT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (storage_provider_id) REFERENCES storage_providers(id),
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE SET NULL,
+    FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_status_expires (status, expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 13. INTEGRITY_SCANS TABLE (Stored asset checks)
+-- =====================================================
+CREATE TABLE integrity_scans (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    status ENUM('pending', 'running', 'completed', 'failed', 'cancelled') NOT NULL DEFAULT 'pending',
+    total_wallpapers INT NOT NULL DEFAULT 0,
+    processed_wallpapers INT NOT NULL DEFAULT 0,
+    issues_found INT NOT NULL DEFAULT 0,
+    last_wallpaper_id INT NOT NULL DEFAULT 0 COMMENT 'Resume checkpoint',
+    error TEXT,
+    started_by INT NOT NULL,
+    started_at TIMESTAMP NULL,
+    completed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (started_by) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 14. INTEGRITY_ISSUES TABLE (Problems found by a scan)
+-- =====================================================
+CREATE TABLE integrity_issues (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    scan_id INT NOT NULL,
+    wallpaper_id INT NOT NULL,
+    resolution_id INT NULL COMMENT 'Set for resolution assets',
+    asset ENUM('original', 'thumbnail', 'medium', 'resolution') NOT NULL,
+    url VARCHAR(1000) NOT NULL,
+    public_id VARCHAR(500),
+    issue ENUM('missing', 'size_mismatch', 'content_type_mismatch', 'unreachable') NOT NULL,
+    expected_size BIGINT,
+    actual_size BIGINT,
+    expected_content_type VARCHAR(100),
+    actual_content_type VARCHAR(100),
+    details TEXT,
+    status ENUM('open', 'repaired') NOT NULL DEFAULT 'open',
+    repaired_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (scan_id) REFERENCES integrity_scans(id) ON DELETE CASCADE,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    FOREIGN KEY (resolution_id) REFERENCES wallpaper_resolutions(id) ON DELETE CASCADE,
+    INDEX idx_scan_status (scan_id, status),
+    INDEX idx_wallpaper (wallpaper_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 15. WALLPAPER_REPLICAS TABLE (Copies on the mirror provider)
+-- =====================================================
+CREATE TABLE wallpaper_replicas (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    resolution_id INT NULL COMMENT 'Set for resolution assets',
+    asset ENUM('original', 'thumbnail', 'medium', 'resolution') NOT NULL,
+    asset_key VARCHAR(32) AS (CONCAT(asset, ':', IFNULL(resolution_id, 0))) STORED,
+    storage_provider_id INT NOT NULL,
+    url VARCHAR(1000) NOT NULL,
+    public_id VARCHAR(500) COMMENT 'Object key on the mirror provider',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    FOREIGN KEY (resolution_id) REFERENCES wallpaper_resolutions(id) ON DELETE CASCADE,
+    FOREIGN KEY (storage_provider_id) REFERENCES storage_providers(id),
+    UNIQUE KEY unique_replica (wallpaper_id, storage_provider_id, asset_key),
+    INDEX idx_provider (storage_provider_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 16. WALLPAPER_FORMATS TABLE (WebP/AVIF variants of derived files)
+-- =====================================================
+CREATE TABLE wallpaper_formats (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    resolution_id INT NULL COMMENT 'Set for resolution assets',
+    asset ENUM('thumbnail', 'medium', 'resolution') NOT NULL,
+    format ENUM('webp', 'avif') NOT NULL,
+    file_size BIGINT COMMENT 'Size in bytes',
+    url VARCHAR(1000) NOT NULL,
+    public_id VARCHAR(500) COMMENT 'Storage provider object key',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    FOREIGN KEY (resolution_id) REFERENCES wallpaper_resolutions(id) ON DELETE CASCADE,
+    INDEX idx_wallpaper (wallpaper_id),
+    INDEX idx_resolution (resolution_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 17. WALLPAPER_RENDERS TABLE (Cached custom-size renders)
+-- =====================================================
+CREATE TABLE wallpaper_renders (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    cache_key VARCHAR(100) NOT NULL COMMENT 'Normalized render parameters',
+    width INT NOT NULL,
+    height INT NOT NULL,
+    fit ENUM('cover', 'contain', 'inside') NOT NULL,
+    format ENUM('jpeg', 'webp', 'avif') NOT NULL,
+    file_size BIGINT COMMENT 'Size in bytes',
+    storage_provider_id INT NOT NULL,
+    url VARCHAR(1000) NOT NULL,
+    public_id VARCHAR(500) COMMENT 'Storage provider object key',
+    hit_count INT NOT NULL DEFAULT 0,
+    last_accessed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    FOREIGN KEY (storage_provider_id) REFERENCES storage_providers(id),
+    UNIQUE KEY unique_render (wallpaper_id, cache_key),
+    INDEX idx_provider (storage_provider_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 18. WALLPAPER_COLORS TABLE (Dominant colour palette)
+-- =====================================================
+CREATE TABLE wallpaper_colors (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    position TINYINT NOT NULL COMMENT '0 = most dominant',
+    hex CHAR(7) NOT NULL,
+    proportion FLOAT NOT NULL COMMENT 'Share of the image, 0-1',
+    lab_l FLOAT NOT NULL COMMENT 'CIE Lab, for colour search',
+    lab_a FLOAT NOT NULL,
+    lab_b FLOAT NOT NULL,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_color (wallpaper_id, position),
+    INDEX idx_lightness (lab_l)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 19. WALLPAPER_METADATA TABLE (Metadata stripped from originals, admin only)
+-- =====================================================
+CREATE TABLE wallpaper_metadata (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    orientation TINYINT NOT NULL DEFAULT 1 COMMENT 'EXIF orientation applied to the pixels',
+    has_location BOOLEAN NOT NULL DEFAULT FALSE,
+    exif JSON COMMENT 'Parsed EXIF, binary fields omitted',
+    xmp MEDIUMTEXT,
+    iptc MEDIUMTEXT COMMENT 'Base64',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_wallpaper (wallpaper_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 20. PROCESSING_JOBS TABLE (Queue generating derived files of uploads)
+-- =====================================================
+CREATE TABLE processing_jobs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    wallpaper_id INT NOT NULL,
+    type ENUM('process', 'recrop') NOT NULL DEFAULT 'process' COMMENT 'process = all derived files, recrop = crops after a focal point change',
+    status ENUM('pending', 'running', 'completed', 'failed') NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    max_attempts INT NOT NULL DEFAULT 3,
+    total_steps INT NOT NULL DEFAULT 0,
+    completed_steps INT NOT NULL DEFAULT 0,
+    errors JSON COMMENT 'Step failures of the latest attempt',
+    error TEXT,
+    run_after TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'Retry backoff',
+    locked_at TIMESTAMP NULL COMMENT 'Heartbeat of the worker running the job',
+    locked_by CHAR(32) NULL COMMENT 'Token of the claim that runs the job; results of other claims are dropped',
+    started_at TIMESTAMP NULL,
+    completed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallpaper_id) REFERENCES wallpapers(id) ON DELETE CASCADE,
+    INDEX idx_runnable (status, run_after),
+    INDEX idx_wallpaper (wallpaper_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- 21. RESOLUTION_PRESETS TABLE (Sizes generated for every upload)
+-- =====================================================
+CREATE TABLE resolution_presets (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(50) UNIQUE NOT NULL COMMENT 'Stored as wallpaper_resolutions.resolution_name',
+    width INT NOT NULL,
+    height INT NOT NULL,
+    device_class ENUM('desktop', 'ultrawide', 'tablet', 'mobile', 'any') NOT NULL DEFAULT 'any',
+    orientation ENUM('landscape', 'portrait') NULL COMMENT 'Sources it is generated for; NULL = all',
+    format ENUM('jpeg', 'webp') NOT NULL DEFAULT 'jpeg',
+    quality TINYINT NOT NULL DEFAULT 90,
+    is_active TINYINT NOT NULL DEFAULT 1,
+    sort_order INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_active (is_active, sort_order)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- =====================================================
 -- SEED DATA: Initial Storage Providers
 -- =====================================================
-INSERT INTO storage_providers (provider_name, is_active, priority, config) VALUES
+INSERT INTO storage_providers (provider_name, is_active, priority, config, storage_cost_per_gb, egress_cost_per_gb) VALUES
 ('cloudinary', 1, 1, JSON_OBJECT(
     'cloud_name', '',
     'api_key', '',
     'api_secret', ''
-)),
+), 0, 0),
 ('s3', 0, 2, JSON_OBJECT(
     'bucket_name', '',
     'region', 'us-east-1',
     'access_key_id', '',
     'secret_access_key', ''
-));
+), 0.023, 0.09),
+('local', 0, 0, JSON_OBJECT(
+    'root_path', 'uploads',
+    'base_url', ''
+), 0, 0);
+
+-- =====================================================
+-- SEED DATA: Resolution Presets
+-- =====================================================
+INSERT INTO resolution_presets (name, width, height, device_class, orientation, format, quality, sort_order) VALUES
+('1080p', 1920, 1080, 'desktop', 'landscape', 'jpeg', 90, 10),
+('1440p', 2560, 1440, 'desktop', 'landscape', 'jpeg', 90, 20),
+('4K', 3840, 2160, 'desktop', 'landscape', 'jpeg', 90, 30),
+('5K', 5120, 2880, 'desktop', 'landscape', 'jpeg', 90, 40),
+('Ultrawide 1080p', 2560, 1080, 'ultrawide', 'landscape', 'jpeg', 90, 50),
+('Ultrawide 1440p', 3440, 1440, 'ultrawide', 'landscape', 'jpeg', 90, 60),
+('Super Ultrawide', 5120, 1440, 'ultrawide', 'landscape', 'jpeg', 90, 70),
+('Mobile HD', 1080, 1920, 'mobile', 'portrait', 'jpeg', 90, 80),
+('Mobile 2K', 1440, 2560, 'mobile', 'portrait', 'jpeg', 90, 90),
+('Tablet', 1536, 2048, 'tablet', 'portrait', 'jpeg', 90, 100);
 
 -- =====================================================
 -- SEED DATA: Predefined Categories
@@ -13,6 +13,8 @@ const pool = mysql.createPool({
   waitForConnections: true,
   connectionLimit: 10,
   queueLimit: 0,
+  // BIGINT values past 2^53 (perceptual hashes) come back as strings instead of rounded numbers
+  supportBigNumbers: true,
 });
 
 export const testConnection = async (): Promise<void> => {
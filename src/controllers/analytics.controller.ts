@@ -3,6 +3,7 @@ import { AnalyticsModel } from '../models/Analytics.model';
 import { DownloadModel } from '../models/Download.model';
 import { WallpaperModel } from '../models/Wallpaper.model';
 import { CategoryModel } from '../models/Category.model';
+import { UsageModel } from '../models/Usage.model';
 
 export class AnalyticsController {
   // Get dashboard overview (admin only)
@@ -201,4 +202,102 @@ export class AnalyticsController {
       });
     }
   }
+
+  // Get bytes stored per provider and category (admin only)
+  static async getStorageUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const [byProvider, byCategory] = await Promise.all([
+        UsageModel.getStorageByProvider(),
+        UsageModel.getStorageByCategory(),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          total_bytes: byProvider.reduce((sum, provider) => sum + provider.bytes_stored, 0),
+          by_provider: byProvider,
+          by_category: byCategory,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get storage usage error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage usage',
+      });
+    }
+  }
+
+  // Get bytes stored per wallpaper (admin only)
+  static async getWallpaperStorage(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { wallpapers, total } = await UsageModel.getStorageByWallpaper(page, limit);
+
+      res.json({
+        success: true,
+        data: wallpapers,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error('Get wallpaper storage error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch wallpaper storage',
+      });
+    }
+  }
+
+  // Get bytes served per day (admin only)
+  static async getBandwidthUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+
+      const usage = await UsageModel.getBandwidthByDay(days);
+
+      res.json({
+        success: true,
+        data: usage,
+      });
+    } catch (error: any) {
+      console.error('Get bandwidth usage error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch bandwidth usage',
+      });
+    }
+  }
+
+  // Get projected monthly storage and egress cost (admin only)
+  static async getCostProjection(req: Request, res: Response): Promise<void> {
+    try {
+      // Window of downloads used to estimate monthly egress
+      const days = parseInt(req.query.days as string) || 30;
+
+      const providers = await UsageModel.getCostProjection(days);
+      const total = providers.reduce((sum, provider) => sum + provider.total_cost, 0);
+
+      res.json({
+        success: true,
+        data: {
+          based_on_days: days,
+          total_cost: Math.round(total * 100) / 100,
+          providers,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get cost projection error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch cost projection',
+      });
+    }
+  }
 }
@@ -2,8 +2,24 @@ import { Request, Response } from 'express';
 import { DownloadModel } from '../models/Download.model';
 import { WallpaperModel } from '../models/Wallpaper.model';
 import { WallpaperResolutionModel } from '../models/WallpaperResolution.model';
+import { WallpaperReplicaModel } from '../models/WallpaperReplica.model';
+import { WallpaperFormatModel } from '../models/WallpaperFormat.model';
 import { FingerprintUtil } from '../utils/fingerprint.util';
-import axios from 'axios';
+import { FormatUtil } from '../utils/format.util';
+import { MimeUtil } from '../utils/mime.util';
+import { FileStreamService } from '../services/FileStreamService';
+import { StorageFactory } from '../services/storage/StorageFactory';
+import { RenderService } from '../services/RenderService';
+import { SpanService } from '../services/SpanService';
+import { WallpaperProcessingStatus, WallpaperResolution } from '../types';
+import archiver from 'archiver';
+
+// A stored file and the provider it lives on
+interface DownloadSource {
+  providerId: number;
+  url: string;
+  publicId?: string;
+}
 
 export class DownloadController {
   // Download wallpaper
@@ -19,9 +35,9 @@ export class DownloadController {
         return;
       }
 
-      // Verify wallpaper exists
+      // Verify wallpaper exists and has finished processing
       const wallpaper = await WallpaperModel.findById(parseInt(wallpaperId as string));
-      if (!wallpaper) {
+      if (!wallpaper || wallpaper.processing_status !== WallpaperProcessingStatus.READY) {
         res.status(404).json({
           success: false,
           error: 'Wallpaper not found',
@@ -29,9 +45,9 @@ export class DownloadController {
         return;
       }
 
-      // Verify resolution exists
+      // Verify resolution exists and belongs to the wallpaper
       const resolution = await WallpaperResolutionModel.findById(parseInt(resolutionId as string));
-      if (!resolution) {
+      if (!resolution || resolution.wallpaper_id !== wallpaper.id) {
         res.status(404).json({
           success: false,
           error: 'Resolution not found',
@@ -39,38 +55,117 @@ export class DownloadController {
         return;
       }
 
-      // Track download
-      await DownloadModel.create({
-        wallpaper_id: parseInt(wallpaperId as string),
-        user_id: req.user?.userId,
-        resolution_id: parseInt(resolutionId as string),
-        ip_address: FingerprintUtil.getClientIP(req),
-        user_agent: req.headers['user-agent'],
-        device_type: FingerprintUtil.getDeviceType(req.headers['user-agent'] || ''),
-        downloaded_at: new Date(),
-      });
+      // Pick the file format: explicit ?format=, else the best one the client accepts
+      const requested = req.query.format as string | undefined;
+      if (requested && !FormatUtil.REQUESTABLE.includes(requested)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid format. Allowed: ${FormatUtil.REQUESTABLE.join(', ')}`,
+        });
+        return;
+      }
 
-      // Increment wallpaper download count
-      await WallpaperModel.incrementDownloadCount(parseInt(wallpaperId as string));
+      const formats = await WallpaperFormatModel.getByResolutionId(resolution.id);
+      const wanted =
+        requested || FormatUtil.negotiate(req.headers.accept, formats.map((f) => f.format));
+      const variant = formats.find((f) => f.format === wanted);
 
-      // Fetch the image from the URL
-      const response = await axios.get(resolution.url, {
-        responseType: 'arraybuffer',
-      });
+      // The base file is in its preset's format (JPEG or WebP), the upload's own format for
+      // the "Original" resolution, and animated WebP for animated wallpapers
+      const baseFormat = (MimeUtil.fromPath(resolution.url) || 'image/jpeg').split('/')[1];
+
+      if (requested && requested !== 'jpeg' && requested !== baseFormat && !variant) {
+        res.status(404).json({
+          success: false,
+          error: `Resolution is not available as ${requested}`,
+        });
+        return;
+      }
+      if (!requested) res.setHeader('Vary', 'Accept');
+
+      let format: string = variant ? variant.format : baseFormat;
+      let source: DownloadSource = {
+        providerId: wallpaper.storage_provider_id,
+        url: variant ? variant.url : resolution.url,
+        publicId: variant ? variant.public_id : resolution.public_id,
+      };
+
+      // Serve the mirrored base file while the primary provider is cooling down
+      if (!StorageFactory.isHealthy(source.providerId)) {
+        const replica = await DownloadController.getReplicaSource(resolution);
+        if (replica) {
+          source = replica;
+          format = baseFormat;
+        }
+      }
+
+      const filenameFor = (f: string) =>
+        `${wallpaper.slug}-${resolution.resolution_name}.${FormatUtil.extension(f)}`;
+      const track = req.query.track !== 'false';
+
+      // Redirect mode: hand the client a short-lived provider URL instead of proxying bytes
+      if (process.env.DOWNLOAD_MODE === 'redirect' && req.method !== 'HEAD') {
+        const signedUrl = await DownloadController.getSignedUrl(source, filenameFor(format));
+
+        if (signedUrl) {
+          if (track) {
+            await DownloadController.recordDownload(req, wallpaper.id, resolution.id, format);
+          }
+
+          res.setHeader('Cache-Control', 'no-store');
+          res.redirect(302, signedUrl);
+          return;
+        }
+      }
 
-      // Generate filename
-      const extension = resolution.url.split('.').pop()?.split('?')[0] || 'jpg';
-      const filename = `${wallpaper.slug}-${resolution.resolution_name}.${extension}`;
+      // Open the file at the storage provider before counting the download
+      let upstream;
+      try {
+        upstream = await FileStreamService.open(source.url, req);
+      } catch (error: any) {
+        console.error('Download wallpaper upstream error:', error.message);
 
-      // Set headers to force download
-      res.setHeader('Content-Type', response.headers['content-type'] || 'image/jpeg');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', response.data.length);
+        // A missing file says nothing about the provider itself
+        if (!error.response || error.response.status >= 500) {
+          StorageFactory.recordFailure(source.providerId);
+        }
 
-      // Send the file
-      res.send(response.data);
+        const replica =
+          source.providerId === wallpaper.storage_provider_id
+            ? await DownloadController.getReplicaSource(resolution)
+            : null;
+        upstream = replica ? await DownloadController.openReplica(replica, req) : null;
+        if (!upstream) {
+          res.status(502).json({
+            success: false,
+            error: 'Wallpaper file is unavailable',
+          });
+          return;
+        }
+        format = baseFormat;
+      }
+
+      // Resumed chunks, HEAD probes and cache revalidations don't count as new downloads
+      if (track && FileStreamService.isNewDownload(req, upstream.status)) {
+        try {
+          await DownloadController.recordDownload(req, wallpaper.id, resolution.id, format);
+        } catch (error) {
+          upstream.data.destroy();
+          throw error;
+        }
+      }
+
+      // Stream the file to the client
+      await FileStreamService.pipe(upstream, res, {
+        filename: filenameFor(format),
+        defaultContentType: `image/${format}`,
+      });
     } catch (error: any) {
       console.error('Download wallpaper error:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to download wallpaper',
@@ -78,6 +173,148 @@ export class DownloadController {
     }
   }
 
+  // Download a wallpaper split across several monitors, as a ZIP with one slice per monitor
+  static async downloadSpan(req: Request, res: Response): Promise<void> {
+    try {
+      const wallpaperId = parseInt(req.query.wallpaperId as string);
+      if (!wallpaperId) {
+        res.status(400).json({
+          success: false,
+          error: 'wallpaperId is required',
+        });
+        return;
+      }
+
+      const { layout, errors } = SpanService.parse(req.query);
+      if (!layout) {
+        res.status(400).json({
+          success: false,
+          errors,
+        });
+        return;
+      }
+
+      // Until processing finishes, the wallpaper isn't public yet
+      const wallpaper = await WallpaperModel.findById(wallpaperId);
+      if (!wallpaper || wallpaper.processing_status !== WallpaperProcessingStatus.READY) {
+        res.status(404).json({
+          success: false,
+          error: 'Wallpaper not found',
+        });
+        return;
+      }
+
+      // Slices are cut on every request, so they share the per-client render budget
+      if (!RenderService.takeMiss(FingerprintUtil.getClientIP(req))) {
+        res.status(429).json({
+          success: false,
+          error: 'Too many renders requested; try again later',
+        });
+        return;
+      }
+
+      const slices = await SpanService.slice(wallpaper, layout);
+
+      // Span downloads count against the original they're cut from
+      const original = wallpaper.resolutions?.find((resolution) => resolution.is_original);
+      if (original && req.query.track !== 'false') {
+        await DownloadController.recordDownload(req, wallpaper.id, original.id, 'zip');
+      }
+
+      const name = `${wallpaper.slug}-span-${SpanService.describe(layout)}`;
+      res.attachment(`${name}.zip`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      // JPEG slices don't compress any further, so they're stored as-is
+      const archive = archiver('zip', { store: true });
+      archive.on('error', (error) => {
+        console.error('Span archive error:', error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+
+      slices.forEach((slice, i) => {
+        archive.append(slice.buffer, {
+          name: `${name}/${i + 1}-of-${slices.length}-${slice.width}x${slice.height}.jpg`,
+        });
+      });
+      await archive.finalize();
+    } catch (error: any) {
+      console.error('Download span error:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create span download',
+      });
+    }
+  }
+
+  // Helper: Record a download and bump the wallpaper's counter
+  private static async recordDownload(
+    req: Request,
+    wallpaperId: number,
+    resolutionId: number,
+    format: string
+  ): Promise<void> {
+    await DownloadModel.create({
+      wallpaper_id: wallpaperId,
+      user_id: req.user?.userId,
+      resolution_id: resolutionId,
+      ip_address: FingerprintUtil.getClientIP(req),
+      user_agent: req.headers['user-agent'],
+      device_type: FingerprintUtil.getDeviceType(req.headers['user-agent'] || ''),
+      format,
+      downloaded_at: new Date(),
+    });
+
+    // Increment wallpaper download count
+    await WallpaperModel.incrementDownloadCount(wallpaperId);
+  }
+
+  // Helper: Where the mirrored base file of a resolution lives, if it has been replicated
+  private static async getReplicaSource(
+    resolution: WallpaperResolution
+  ): Promise<DownloadSource | null> {
+    const replica = await WallpaperReplicaModel.findByResolutionId(resolution.id);
+    if (!replica) return null;
+
+    return {
+      providerId: replica.storage_provider_id,
+      url: replica.url,
+      publicId: replica.public_id,
+    };
+  }
+
+  // Helper: Open a replica, or null if that fails too
+  private static async openReplica(source: DownloadSource, req: Request) {
+    try {
+      return await FileStreamService.open(source.url, req);
+    } catch (error: any) {
+      console.error('Download wallpaper replica error:', error.message);
+      return null;
+    }
+  }
+
+  // Helper: Signed attachment URL from the file's storage provider, if it supports one
+  private static async getSignedUrl(
+    source: DownloadSource,
+    filename: string
+  ): Promise<string | null> {
+    const storage = await StorageFactory.getServiceById(source.providerId);
+    if (!storage.getSignedDownloadUrl) return null;
+
+    const publicId = source.publicId || storage.getPublicId(source.url);
+    if (!publicId) return null;
+
+    return storage.getSignedDownloadUrl(publicId, {
+      filename,
+      expiresIn: parseInt(process.env.DOWNLOAD_URL_TTL || '300'),
+    });
+  }
+
   // Track download
   static async trackDownload(req: Request, res: Response): Promise<void> {
     try {
@@ -91,9 +328,9 @@ export class DownloadController {
         return;
       }
 
-      // Verify wallpaper exists
+      // Verify wallpaper exists and has finished processing
       const wallpaper = await WallpaperModel.findById(wallpaperId);
-      if (!wallpaper) {
+      if (!wallpaper || wallpaper.processing_status !== WallpaperProcessingStatus.READY) {
         res.status(404).json({
           success: false,
           error: 'Wallpaper not found',
@@ -101,9 +338,9 @@ export class DownloadController {
         return;
       }
 
-      // Verify resolution exists
+      // Verify resolution exists and belongs to the wallpaper
       const resolution = await WallpaperResolutionModel.findById(resolutionId);
-      if (!resolution) {
+      if (!resolution || resolution.wallpaper_id !== wallpaper.id) {
         res.status(404).json({
           success: false,
           error: 'Resolution not found',
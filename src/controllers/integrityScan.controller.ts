@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import { IntegrityScanModel } from '../models/IntegrityScan.model';
+import { IntegrityScanService } from '../services/storage/IntegrityScanService';
+import { IntegrityIssueStatus, IntegrityIssueType, IntegrityScanStatus } from '../types';
+
+export class IntegrityScanController {
+  // Start a scan (admin only)
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      // One scan at a time; they all walk the same wallpapers
+      const running = await IntegrityScanModel.getByStatus(IntegrityScanStatus.RUNNING);
+      if (running.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Another integrity scan is already running',
+          data: { scanId: running[0].id },
+        });
+        return;
+      }
+
+      const scanId = await IntegrityScanModel.create(req.user!.userId);
+      IntegrityScanService.start(scanId);
+
+      const scan = await IntegrityScanModel.findById(scanId);
+
+      res.status(202).json({
+        success: true,
+        message: 'Integrity scan started',
+        data: scan,
+      });
+    } catch (error: any) {
+      console.error('Create integrity scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start integrity scan',
+      });
+    }
+  }
+
+  // Get all scans (admin only)
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { scans, total } = await IntegrityScanModel.getAll(page, limit);
+
+      res.json({
+        success: true,
+        data: scans,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error('Get integrity scans error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch integrity scans',
+      });
+    }
+  }
+
+  // Get scan progress and issue summary (admin only)
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const scan = await IntegrityScanModel.findById(parseInt(req.params.id));
+      if (!scan) {
+        res.status(404).json({
+          success: false,
+          error: 'Integrity scan not found',
+        });
+        return;
+      }
+
+      const summary = await IntegrityScanModel.getIssueSummary(scan.id);
+
+      res.json({
+        success: true,
+        data: {
+          ...scan,
+          summary,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get integrity scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch integrity scan',
+      });
+    }
+  }
+
+  // Get issues found by a scan (admin only)
+  static async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const issue = req.query.issue as IntegrityIssueType | undefined;
+      const status = req.query.status as IntegrityIssueStatus | undefined;
+
+      if (issue && !Object.values(IntegrityIssueType).includes(issue)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid issue. Must be one of: ${Object.values(IntegrityIssueType).join(', ')}`,
+        });
+        return;
+      }
+
+      if (status && !Object.values(IntegrityIssueStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${Object.values(IntegrityIssueStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      const scan = await IntegrityScanModel.findById(parseInt(req.params.id));
+      if (!scan) {
+        res.status(404).json({
+          success: false,
+          error: 'Integrity scan not found',
+        });
+        return;
+      }
+
+      const { issues, total } = await IntegrityScanModel.getIssues(scan.id, page, limit, {
+        issue,
+        status,
+      });
+
+      res.json({
+        success: true,
+        data: issues,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error('Get integrity report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch integrity report',
+      });
+    }
+  }
+
+  // Cancel a scan (admin only)
+  static async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const scan = await IntegrityScanModel.findById(parseInt(req.params.id));
+      if (!scan) {
+        res.status(404).json({
+          success: false,
+          error: 'Integrity scan not found',
+        });
+        return;
+      }
+
+      if (
+        scan.status !== IntegrityScanStatus.PENDING &&
+        scan.status !== IntegrityScanStatus.RUNNING
+      ) {
+        res.status(409).json({
+          success: false,
+          error: `Integrity scan is already ${scan.status}`,
+        });
+        return;
+      }
+
+      await IntegrityScanModel.update(scan.id, {
+        status: IntegrityScanStatus.CANCELLED,
+        completed_at: new Date(),
+      });
+
+      res.json({
+        success: true,
+        message: 'Integrity scan cancelled',
+      });
+    } catch (error: any) {
+      console.error('Cancel integrity scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel integrity scan',
+      });
+    }
+  }
+
+  // Regenerate every repairable asset flagged by a scan (admin only)
+  static async repairAll(req: Request, res: Response): Promise<void> {
+    try {
+      const scan = await IntegrityScanModel.findById(parseInt(req.params.id));
+      if (!scan) {
+        res.status(404).json({
+          success: false,
+          error: 'Integrity scan not found',
+        });
+        return;
+      }
+
+      const issues = (await IntegrityScanModel.getOpenIssues(scan.id)).filter((issue) =>
+        IntegrityScanService.isRepairable(issue)
+      );
+
+      let repaired = 0;
+      const failed: { issue_id: number; error: string }[] = [];
+
+      for (const issue of issues) {
+        try {
+          await IntegrityScanService.repair(issue);
+          repaired++;
+        } catch (error: any) {
+          failed.push({ issue_id: issue.id, error: error.message || 'Repair failed' });
+        }
+      }
+
+      res.json({
+        success: true,
+        message: `Repaired ${repaired} of ${issues.length} assets`,
+        data: { repaired, failed },
+      });
+    } catch (error: any) {
+      console.error('Repair integrity issues error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to repair assets',
+      });
+    }
+  }
+
+  // Regenerate one flagged asset (admin only)
+  static async repairIssue(req: Request, res: Response): Promise<void> {
+    try {
+      const issue = await IntegrityScanModel.findIssueById(parseInt(req.params.issueId));
+      if (!issue) {
+        res.status(404).json({
+          success: false,
+          error: 'Integrity issue not found',
+        });
+        return;
+      }
+
+      if (!IntegrityScanService.isRepairable(issue)) {
+        res.status(400).json({
+          success: false,
+          error:
+            issue.status === IntegrityIssueStatus.REPAIRED
+              ? 'Issue has already been repaired'
+              : 'Only derived assets can be regenerated',
+        });
+        return;
+      }
+
+      await IntegrityScanService.repair(issue);
+
+      res.json({
+        success: true,
+        message: 'Asset regenerated successfully',
+        data: await IntegrityScanModel.findIssueById(issue.id),
+      });
+    } catch (error: any) {
+      console.error('Repair integrity issue error:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to repair asset',
+      });
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { LocalStorageService } from '../services/storage/LocalStorageService';
+import { StorageFactory } from '../services/storage/StorageFactory';
+import { RenderService } from '../services/RenderService';
+import { UploadSessionModel } from '../models/UploadSession.model';
+import { FingerprintUtil } from '../utils/fingerprint.util';
+import { UploadSessionStatus } from '../types';
+import sharp from 'sharp';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const ALLOWED_FORMATS = ['jpeg', 'jpg', 'png', 'webp', 'avif'];
+// Largest side of an on-the-fly transform; sizes are snapped so results can be cached
+const MAX_DIMENSION = parseInt(process.env.MEDIA_MAX_DIMENSION || '3840');
+const QUALITY_STEP = 5;
+
+export class MediaController {
+  // Serve a file from local storage (public)
+  static async serve(req: Request, res: Response): Promise<void> {
+    const publicId = MediaController.publicIdOf(req);
+    if (publicId === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid file path',
+      });
+      return;
+    }
+
+    // Resized copies live next to the files, but aren't served as files themselves
+    if (publicId.split('/')[0] === LocalStorageService.TRANSFORM_CACHE) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found',
+      });
+      return;
+    }
+
+    const services = await StorageFactory.getLocalServices();
+
+    let found: { storage: LocalStorageService; filePath: string; stats: fs.Stats } | null;
+    try {
+      found = await MediaController.findFile(services, publicId);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid file path',
+      });
+      return;
+    }
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found',
+      });
+      return;
+    }
+
+    const width = parseInt(req.query.w as string) || undefined;
+    const height = parseInt(req.query.h as string) || undefined;
+    const quality = parseInt(req.query.q as string) || 90;
+    const format = (req.query.format as string | undefined)?.toLowerCase();
+
+    // No transformation requested, serve the stored file as-is
+    if (!width && !height && !format) {
+      res.sendFile(found.filePath, { maxAge: '30d' });
+      return;
+    }
+
+    if (format && !ALLOWED_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid format. Allowed: ${ALLOWED_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    if ((width && width > MAX_DIMENSION) || (height && height > MAX_DIMENSION)) {
+      res.status(400).json({
+        success: false,
+        error: `Dimensions cannot exceed ${MAX_DIMENSION}px`,
+      });
+      return;
+    }
+
+    // Near-identical requests share one cached file
+    const step = RenderService.SIZE_STEP;
+    const snap = (value?: number) =>
+      value && Math.min(MAX_DIMENSION, Math.max(step, Math.round(value / step) * step));
+    const targetWidth = snap(width);
+    const targetHeight = snap(height);
+    const targetQuality = Math.min(
+      100,
+      Math.max(QUALITY_STEP, Math.round(quality / QUALITY_STEP) * QUALITY_STEP)
+    );
+    const targetFormat = (format === 'jpg' ? 'jpeg' : format || 'jpeg') as keyof sharp.FormatEnum;
+
+    const cachePath = found.storage.transformCachePath(
+      publicId,
+      `${targetWidth || 0}x${targetHeight || 0}-q${targetQuality}.${targetFormat}`
+    );
+    res.setHeader('Cache-Control', 'public, max-age=2592000');
+
+    // Cached copies older than the file (it was replaced in place) are made again
+    const cached = await fs.promises.stat(cachePath).catch(() => null);
+    if (cached && cached.mtimeMs >= found.stats.mtimeMs) {
+      res.sendFile(cachePath, {
+        dotfiles: 'allow',
+        headers: { 'Content-Type': `image/${targetFormat}` },
+      });
+      return;
+    }
+
+    // Misses cost CPU, so they share the per-client budget of renders
+    if (!RenderService.takeMiss(FingerprintUtil.getClientIP(req))) {
+      res.status(429).json({
+        success: false,
+        error: 'Too many new image sizes requested; try again later',
+      });
+      return;
+    }
+
+    let output: Buffer;
+    try {
+      output = await sharp(found.filePath)
+        .resize(targetWidth, targetHeight, {
+          fit: targetWidth && targetHeight ? 'cover' : 'inside',
+          position: 'center',
+          withoutEnlargement: true,
+        })
+        .toFormat(targetFormat, { quality: targetQuality })
+        .toBuffer();
+    } catch (error) {
+      console.error('Media transform error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process image',
+      });
+      return;
+    }
+
+    try {
+      // Written aside and renamed, so a concurrent request never reads half a file
+      const tempPath = `${cachePath}.${crypto.randomBytes(4).toString('hex')}.part`;
+      await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, output);
+      await fs.promises.rename(tempPath, cachePath);
+    } catch (error) {
+      console.error('Failed to cache media transform:', error);
+    }
+
+    res.setHeader('Content-Type', `image/${targetFormat}`);
+    res.send(output);
+  }
+
+  // Receive a direct upload through a signed URL (local storage provider)
+  static async receive(req: Request, res: Response): Promise<void> {
+    const publicId = MediaController.publicIdOf(req);
+    if (publicId === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid file path',
+      });
+      return;
+    }
+
+    const expires = parseInt(req.query.expires as string);
+    const maxSize = parseInt(req.query.max_size as string) || 0;
+
+    // The file goes to the provider the upload session was opened on
+    const session = await UploadSessionModel.findByPublicId(publicId);
+    const storage =
+      session?.status === UploadSessionStatus.PENDING
+        ? await StorageFactory.getServiceById(session.storage_provider_id)
+        : null;
+
+    if (
+      !(storage instanceof LocalStorageService) ||
+      !storage.verifyUploadSignature(publicId, expires, maxSize, req.query.signature as string)
+    ) {
+      res.status(403).json({
+        success: false,
+        error: 'Invalid or expired upload URL',
+      });
+      return;
+    }
+
+    // Reject early when the client announces an oversized body
+    const contentLength = parseInt(req.headers['content-length'] || '0');
+    if (maxSize && contentLength > maxSize) {
+      res.status(413).json({
+        success: false,
+        error: `File size exceeds maximum of ${maxSize} bytes`,
+      });
+      return;
+    }
+
+    try {
+      const size = await storage.writeStream(publicId, req, maxSize);
+
+      res.json({
+        success: true,
+        data: { publicId, size },
+      });
+    } catch (error: any) {
+      console.error('Media upload error:', error);
+      res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 500).json({
+        success: false,
+        error: error.message || 'Failed to store file',
+      });
+    }
+  }
+
+  // Helper: Public ID from the request path; null if it holds a malformed escape
+  private static publicIdOf(req: Request): string | null {
+    try {
+      return decodeURIComponent(req.path.replace(/^\/+/, ''));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Helper: Find a stored file in the local providers' roots
+  private static async findFile(
+    services: LocalStorageService[],
+    publicId: string
+  ): Promise<{ storage: LocalStorageService; filePath: string; stats: fs.Stats } | null> {
+    for (const storage of services) {
+      const filePath = storage.resolvePath(publicId);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (stats?.isFile()) return { storage, filePath, stats };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,256 @@
+import { Request, Response } from 'express';
+import { ResolutionPresetModel } from '../models/ResolutionPreset.model';
+import { ResolutionPresetService } from '../services/ResolutionPresetService';
+import { DeviceClass, ResolutionPreset } from '../types';
+
+const MAX_DIMENSION = 10000;
+const FORMATS: ResolutionPreset['format'][] = ['jpeg', 'webp'];
+const ORIENTATIONS = ['landscape', 'portrait'];
+
+export class ResolutionPresetController {
+  // Get all resolution presets, including inactive ones (admin only)
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const presets = await ResolutionPresetModel.getAll();
+
+      res.json({
+        success: true,
+        data: presets,
+      });
+    } catch (error: any) {
+      console.error('Get resolution presets error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch resolution presets',
+      });
+    }
+  }
+
+  // Get resolution preset by ID (admin only)
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const preset = await ResolutionPresetModel.findById(parseInt(req.params.id));
+
+      if (!preset) {
+        res.status(404).json({
+          success: false,
+          error: 'Resolution preset not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: preset,
+      });
+    } catch (error: any) {
+      console.error('Get resolution preset error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch resolution preset',
+      });
+    }
+  }
+
+  // Create resolution preset (admin only)
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { values, errors } = ResolutionPresetController.parse(req.body, true);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          errors,
+        });
+        return;
+      }
+
+      if (await ResolutionPresetModel.findByName(values.name!)) {
+        res.status(409).json({
+          success: false,
+          error: 'Resolution preset with this name already exists',
+        });
+        return;
+      }
+
+      const presetId = await ResolutionPresetModel.create(values);
+      ResolutionPresetService.reset();
+
+      const preset = await ResolutionPresetModel.findById(presetId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Resolution preset created successfully',
+        data: preset,
+      });
+    } catch (error: any) {
+      console.error('Create resolution preset error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create resolution preset',
+      });
+    }
+  }
+
+  // Update resolution preset (admin only)
+  // Only new uploads use the change; existing files stay as they were generated
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const presetId = parseInt(req.params.id);
+
+      const preset = await ResolutionPresetModel.findById(presetId);
+      if (!preset) {
+        res.status(404).json({
+          success: false,
+          error: 'Resolution preset not found',
+        });
+        return;
+      }
+
+      const { values, errors } = ResolutionPresetController.parse(req.body, false);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          errors,
+        });
+        return;
+      }
+
+      if (values.name && values.name !== preset.name) {
+        const existing = await ResolutionPresetModel.findByName(values.name);
+        if (existing && existing.id !== presetId) {
+          res.status(409).json({
+            success: false,
+            error: 'Resolution preset with this name already exists',
+          });
+          return;
+        }
+      }
+
+      await ResolutionPresetModel.update(presetId, values);
+      ResolutionPresetService.reset();
+
+      const updatedPreset = await ResolutionPresetModel.findById(presetId);
+
+      res.json({
+        success: true,
+        message: 'Resolution preset updated successfully',
+        data: updatedPreset,
+      });
+    } catch (error: any) {
+      console.error('Update resolution preset error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update resolution preset',
+      });
+    }
+  }
+
+  // Delete resolution preset (admin only)
+  // Resolutions already generated from it are kept
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const presetId = parseInt(req.params.id);
+
+      const preset = await ResolutionPresetModel.findById(presetId);
+      if (!preset) {
+        res.status(404).json({
+          success: false,
+          error: 'Resolution preset not found',
+        });
+        return;
+      }
+
+      await ResolutionPresetModel.delete(presetId);
+      ResolutionPresetService.reset();
+
+      res.json({
+        success: true,
+        message: 'Resolution preset deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete resolution preset error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete resolution preset',
+      });
+    }
+  }
+
+  // Helper: Validate a preset body; on create every required field must be present
+  private static parse(
+    body: Record<string, any>,
+    creating: boolean
+  ): { values: Partial<ResolutionPreset>; errors: string[] } {
+    const values: Partial<ResolutionPreset> = {};
+    const errors: string[] = [];
+    const given = (field: string) => creating || body[field] !== undefined;
+
+    if (given('name')) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (name.length === 0 || name.length > 50) {
+        errors.push('name is required (at most 50 characters)');
+      } else {
+        values.name = name;
+      }
+    }
+
+    for (const field of ['width', 'height'] as const) {
+      if (!given(field)) continue;
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+        errors.push(`${field} must be a whole number between 1 and ${MAX_DIMENSION}`);
+      } else {
+        values[field] = value;
+      }
+    }
+
+    if (given('device_class')) {
+      if (!Object.values(DeviceClass).includes(body.device_class)) {
+        errors.push(`device_class must be one of: ${Object.values(DeviceClass).join(', ')}`);
+      } else {
+        values.device_class = body.device_class;
+      }
+    }
+
+    // null (or omitted on create) generates the preset for sources of any orientation
+    if (body.orientation !== undefined) {
+      if (body.orientation !== null && !ORIENTATIONS.includes(body.orientation)) {
+        errors.push(`orientation must be null or one of: ${ORIENTATIONS.join(', ')}`);
+      } else {
+        values.orientation = body.orientation;
+      }
+    }
+
+    if (body.format !== undefined) {
+      if (!FORMATS.includes(body.format)) {
+        errors.push(`format must be one of: ${FORMATS.join(', ')}`);
+      } else {
+        values.format = body.format;
+      }
+    }
+
+    if (body.quality !== undefined) {
+      const quality = Number(body.quality);
+      if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+        errors.push('quality must be a whole number between 1 and 100');
+      } else {
+        values.quality = quality;
+      }
+    }
+
+    if (body.is_active !== undefined) {
+      values.is_active = body.is_active ? 1 : 0;
+    }
+
+    if (body.sort_order !== undefined) {
+      const sortOrder = Number(body.sort_order);
+      if (!Number.isInteger(sortOrder)) {
+        errors.push('sort_order must be a whole number');
+      } else {
+        values.sort_order = sortOrder;
+      }
+    }
+
+    return { values, errors };
+  }
+}
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { WallpaperModel } from '../models/Wallpaper.model';
+import { StorageMigrationModel } from '../models/StorageMigration.model';
+import { StorageProviderModel } from '../models/StorageProvider.model';
+import { StorageCleanupService } from '../services/storage/StorageCleanupService';
+import { StorageFactory } from '../services/storage/StorageFactory';
+import { ReplicaService } from '../services/storage/ReplicaService';
+import { StorageMigrationStatus } from '../types';
+
+export class StorageController {
+  // Permanently delete soft-deleted wallpapers and their files (admin only)
+  static async purge(req: Request, res: Response): Promise<void> {
+    try {
+      const { wallpaper_id, older_than_days } = req.body;
+
+      if (wallpaper_id) {
+        const wallpaper = await WallpaperModel.findDeletedById(parseInt(wallpaper_id));
+        if (!wallpaper) {
+          res.status(404).json({
+            success: false,
+            error: 'Deleted wallpaper not found',
+          });
+          return;
+        }
+
+        const result = await StorageCleanupService.purgeWallpaper(wallpaper);
+
+        res.json({
+          success: result.purged,
+          message: result.purged ? 'Wallpaper purged successfully' : 'Some files could not be deleted',
+          data: result,
+        });
+        return;
+      }
+
+      const results = await StorageCleanupService.purgeDeleted(parseInt(older_than_days) || 0);
+      const purged = results.filter((result) => result.purged).length;
+
+      res.json({
+        success: true,
+        message: `Purged ${purged} of ${results.length} deleted wallpapers`,
+        data: results,
+      });
+    } catch (error: any) {
+      console.error('Purge wallpapers error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to purge wallpapers',
+      });
+    }
+  }
+
+  // Find (and optionally delete) unreferenced provider objects (admin only)
+  static async sweep(req: Request, res: Response): Promise<void> {
+    try {
+      const { storage_provider_id, dry_run, min_age_hours } = req.body;
+
+      const provider = await StorageProviderModel.findById(parseInt(storage_provider_id));
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      // Copies made by a running migration aren't referenced until it finishes
+      const running = await StorageMigrationModel.getByStatus(StorageMigrationStatus.RUNNING);
+      if (running.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Cannot sweep storage while a storage migration is running',
+        });
+        return;
+      }
+
+      const result = await StorageCleanupService.sweep(provider.id, {
+        dryRun: !(dry_run === 'false' || dry_run === false),
+        minAgeHours: min_age_hours !== undefined ? parseFloat(min_age_hours) : undefined,
+      });
+
+      res.json({
+        success: true,
+        message: result.dry_run
+          ? `Found ${result.orphaned.length} orphaned files`
+          : `Deleted ${result.deleted} orphaned files`,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Sweep storage error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to sweep storage',
+      });
+    }
+  }
+
+  // Copy missing replicas of wallpapers uploaded before mirroring was enabled (admin only)
+  static async reconcileReplicas(req: Request, res: Response): Promise<void> {
+    try {
+      const mirror = await StorageFactory.getMirrorProvider();
+      if (!mirror) {
+        res.status(400).json({
+          success: false,
+          error: 'No mirror storage provider is configured',
+        });
+        return;
+      }
+
+      const reconciliation = await ReplicaService.startReconciliation(mirror);
+      if (!reconciliation) {
+        res.status(409).json({
+          success: false,
+          error: 'A replica reconciliation is already running',
+          data: ReplicaService.getReconciliation(),
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: 'Replica reconciliation started',
+        data: reconciliation,
+      });
+    } catch (error: any) {
+      console.error('Reconcile replicas error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start replica reconciliation',
+      });
+    }
+  }
+
+  // Get progress of the latest replica reconciliation (admin only)
+  static async getReconciliation(req: Request, res: Response): Promise<void> {
+    const reconciliation = ReplicaService.getReconciliation();
+    if (!reconciliation) {
+      res.status(404).json({
+        success: false,
+        error: 'No replica reconciliation has run since the server started',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: reconciliation,
+    });
+  }
+}
@@ -0,0 +1,289 @@
+import { Request, Response } from 'express';
+import { StorageMigrationModel } from '../models/StorageMigration.model';
+import { StorageProviderModel } from '../models/StorageProvider.model';
+import { StorageMigrationService } from '../services/storage/StorageMigrationService';
+import { StorageMigrationItemStatus, StorageMigrationStatus } from '../types';
+
+export class StorageMigrationController {
+  // Start a migration job (admin only)
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { target_provider_id, source_provider_id, dry_run } = req.body;
+
+      const targetProviderId = parseInt(target_provider_id);
+      const sourceProviderId = source_provider_id ? parseInt(source_provider_id) : undefined;
+
+      if (!targetProviderId) {
+        res.status(400).json({
+          success: false,
+          error: 'target_provider_id is required',
+        });
+        return;
+      }
+
+      if (sourceProviderId === targetProviderId) {
+        res.status(400).json({
+          success: false,
+          error: 'Source and target providers must be different',
+        });
+        return;
+      }
+
+      const target = await StorageProviderModel.findById(targetProviderId);
+      if (!target) {
+        res.status(404).json({
+          success: false,
+          error: 'Target storage provider not found',
+        });
+        return;
+      }
+
+      if (sourceProviderId && !(await StorageProviderModel.findById(sourceProviderId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Source storage provider not found',
+        });
+        return;
+      }
+
+      // Only one migration may rewrite URLs at a time
+      const running = await StorageMigrationModel.getByStatus(StorageMigrationStatus.RUNNING);
+      if (running.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Another storage migration is already running',
+          data: { migrationId: running[0].id },
+        });
+        return;
+      }
+
+      const migrationId = await StorageMigrationModel.create({
+        source_provider_id: sourceProviderId,
+        target_provider_id: targetProviderId,
+        dry_run: dry_run === 'true' || dry_run === true ? 1 : 0,
+        started_by: req.user!.userId,
+      });
+
+      StorageMigrationService.start(migrationId);
+
+      const migration = await StorageMigrationModel.findById(migrationId);
+
+      res.status(202).json({
+        success: true,
+        message: 'Storage migration started',
+        data: migration,
+      });
+    } catch (error: any) {
+      console.error('Create storage migration error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start storage migration',
+      });
+    }
+  }
+
+  // Get all migrations (admin only)
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { migrations, total } = await StorageMigrationModel.getAll(page, limit);
+
+      res.json({
+        success: true,
+        data: migrations,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error('Get storage migrations error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage migrations',
+      });
+    }
+  }
+
+  // Get migration progress (admin only)
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const migration = await StorageMigrationModel.findById(parseInt(id));
+      if (!migration) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage migration not found',
+        });
+        return;
+      }
+
+      const summary = await StorageMigrationModel.getItemSummary(migration.id);
+
+      res.json({
+        success: true,
+        data: {
+          ...migration,
+          summary,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get storage migration error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage migration',
+      });
+    }
+  }
+
+  // Get per-wallpaper verification report (admin only)
+  static async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const status = req.query.status as StorageMigrationItemStatus | undefined;
+
+      if (status && !Object.values(StorageMigrationItemStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${Object.values(StorageMigrationItemStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      const migration = await StorageMigrationModel.findById(parseInt(id));
+      if (!migration) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage migration not found',
+        });
+        return;
+      }
+
+      const { items, total } = await StorageMigrationModel.getItems(
+        migration.id,
+        page,
+        limit,
+        status
+      );
+
+      res.json({
+        success: true,
+        data: items,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error('Get storage migration report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage migration report',
+      });
+    }
+  }
+
+  // Resume a cancelled, failed or interrupted migration (admin only)
+  static async resume(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const migration = await StorageMigrationModel.findById(parseInt(id));
+      if (!migration) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage migration not found',
+        });
+        return;
+      }
+
+      if (
+        migration.status === StorageMigrationStatus.COMPLETED ||
+        StorageMigrationService.isRunning(migration.id)
+      ) {
+        res.status(409).json({
+          success: false,
+          error: `Storage migration is already ${migration.status}`,
+        });
+        return;
+      }
+
+      const running = await StorageMigrationModel.getByStatus(StorageMigrationStatus.RUNNING);
+      if (running.some((other) => other.id !== migration.id)) {
+        res.status(409).json({
+          success: false,
+          error: 'Another storage migration is already running',
+        });
+        return;
+      }
+
+      await StorageMigrationModel.update(migration.id, {
+        status: StorageMigrationStatus.RUNNING,
+      });
+      StorageMigrationService.start(migration.id);
+
+      res.status(202).json({
+        success: true,
+        message: 'Storage migration resumed',
+      });
+    } catch (error: any) {
+      console.error('Resume storage migration error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resume storage migration',
+      });
+    }
+  }
+
+  // Cancel a migration (admin only)
+  static async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const migration = await StorageMigrationModel.findById(parseInt(id));
+      if (!migration) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage migration not found',
+        });
+        return;
+      }
+
+      if (
+        migration.status !== StorageMigrationStatus.PENDING &&
+        migration.status !== StorageMigrationStatus.RUNNING
+      ) {
+        res.status(409).json({
+          success: false,
+          error: `Storage migration is already ${migration.status}`,
+        });
+        return;
+      }
+
+      await StorageMigrationModel.update(migration.id, {
+        status: StorageMigrationStatus.CANCELLED,
+        completed_at: new Date(),
+      });
+
+      res.json({
+        success: true,
+        message: 'Storage migration cancelled',
+      });
+    } catch (error: any) {
+      console.error('Cancel storage migration error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel storage migration',
+      });
+    }
+  }
+}
@@ -0,0 +1,475 @@
+import { Request, Response } from 'express';
+import { StorageProviderModel } from '../models/StorageProvider.model';
+import { StorageFactory } from '../services/storage/StorageFactory';
+import { StorageProvider, StorageProviderConfig } from '../types';
+import sharp from 'sharp';
+
+// Placeholder returned instead of secrets; sending it back keeps the stored value
+const MASK = '********';
+
+// Config keys each provider needs
+const REQUIRED_FIELDS: Record<StorageProvider, string[]> = {
+  [StorageProvider.CLOUDINARY]: ['cloud_name', 'api_key', 'api_secret'],
+  [StorageProvider.S3]: ['bucket_name', 'region', 'access_key_id', 'secret_access_key'],
+  [StorageProvider.LOCAL]: [],
+};
+
+export class StorageProviderController {
+  // Get all storage providers (owner only)
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const providers = await StorageProviderModel.getAll((id) => StorageFactory.markUnhealthy(id));
+      const health = StorageFactory.getHealth();
+
+      res.json({
+        success: true,
+        data: providers.map((provider) => ({
+          ...StorageProviderController.mask(provider),
+          health: health.find((h) => h.providerId === provider.id) || null,
+        })),
+      });
+    } catch (error: any) {
+      console.error('Get storage providers error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage providers',
+      });
+    }
+  }
+
+  // Get storage provider by ID (owner only)
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const provider = await StorageProviderModel.findById(parseInt(req.params.id));
+
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: StorageProviderController.mask(provider),
+      });
+    } catch (error: any) {
+      console.error('Get storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch storage provider',
+      });
+    }
+  }
+
+  // Create storage provider (owner only)
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider_name, priority, config, storage_cost_per_gb, egress_cost_per_gb } = req.body;
+
+      if (!Object.values(StorageProvider).includes(provider_name)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid provider_name. Allowed: ${Object.values(StorageProvider).join(', ')}`,
+        });
+        return;
+      }
+
+      const errors = StorageProviderController.validateConfig(provider_name, config || {});
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          errors,
+        });
+        return;
+      }
+
+      // New providers start inactive; activate once the connection test passes
+      const providerId = await StorageProviderModel.create({
+        provider_name,
+        is_active: 0,
+        priority: parseInt(priority) || 0,
+        config: config || {},
+        storage_cost_per_gb: parseFloat(storage_cost_per_gb) || 0,
+        egress_cost_per_gb: parseFloat(egress_cost_per_gb) || 0,
+      });
+
+      const provider = await StorageProviderModel.findById(providerId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Storage provider created successfully',
+        data: StorageProviderController.mask(provider!),
+      });
+    } catch (error: any) {
+      console.error('Create storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create storage provider',
+      });
+    }
+  }
+
+  // Update storage provider (owner only)
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+      const { priority, config, storage_cost_per_gb, egress_cost_per_gb } = req.body;
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      let merged: Record<string, any> | undefined;
+      if (config) {
+        const stored: Record<string, any> = provider.config || {};
+        const next: Record<string, any> = { ...stored, ...config };
+
+        // Masked or omitted secrets keep their stored value
+        for (const field of StorageProviderModel.SECRET_FIELDS) {
+          if (config[field] === MASK || config[field] === undefined) {
+            next[field] = stored[field];
+          }
+        }
+
+        const errors = StorageProviderController.validateConfig(provider.provider_name, next);
+        if (errors.length > 0) {
+          res.status(400).json({
+            success: false,
+            errors,
+          });
+          return;
+        }
+
+        merged = next;
+      }
+
+      await StorageProviderModel.update(providerId, {
+        priority: priority !== undefined ? parseInt(priority) || 0 : undefined,
+        storage_cost_per_gb:
+          storage_cost_per_gb !== undefined ? parseFloat(storage_cost_per_gb) || 0 : undefined,
+        egress_cost_per_gb:
+          egress_cost_per_gb !== undefined ? parseFloat(egress_cost_per_gb) || 0 : undefined,
+        config: merged as StorageProviderConfig['config'] | undefined,
+      });
+      StorageFactory.reset();
+
+      const updatedProvider = await StorageProviderModel.findById(providerId);
+
+      res.json({
+        success: true,
+        message: 'Storage provider updated successfully',
+        data: StorageProviderController.mask(updatedProvider!),
+      });
+    } catch (error: any) {
+      console.error('Update storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update storage provider',
+      });
+    }
+  }
+
+  // Delete storage provider (owner only)
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      if (provider.is_active) {
+        res.status(400).json({
+          success: false,
+          error: 'Deactivate the storage provider before deleting it',
+        });
+        return;
+      }
+
+      const wallpaperCount = await StorageProviderModel.countWallpapers(providerId);
+      if (wallpaperCount > 0) {
+        res.status(409).json({
+          success: false,
+          error: `${wallpaperCount} wallpapers are stored on this provider; migrate them first`,
+        });
+        return;
+      }
+
+      const replicaCount = await StorageProviderModel.countReplicas(providerId);
+      if (replicaCount > 0) {
+        res.status(409).json({
+          success: false,
+          error: `${replicaCount} replica files are stored on this provider`,
+        });
+        return;
+      }
+
+      await StorageProviderModel.delete(providerId);
+
+      res.json({
+        success: true,
+        message: 'Storage provider deleted successfully',
+      });
+    } catch (error: any) {
+      // Still referenced by migrations or upload sessions
+      if (error.code === 'ER_ROW_IS_REFERENCED_2') {
+        res.status(409).json({
+          success: false,
+          error: 'Storage provider is still referenced and cannot be deleted',
+        });
+        return;
+      }
+
+      console.error('Delete storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete storage provider',
+      });
+    }
+  }
+
+  // Upload and delete a probe object (owner only)
+  static async testConnection(req: Request, res: Response): Promise<void> {
+    try {
+      const provider = await StorageProviderModel.findById(parseInt(req.params.id));
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      const service = StorageFactory.createService(provider.provider_name, provider.config);
+
+      const probe = await sharp({
+        create: { width: 1, height: 1, channels: 3, background: '#000000' },
+      })
+        .png()
+        .toBuffer();
+
+      let stage = 'upload';
+      const started = Date.now();
+
+      try {
+        const result = await service.upload(probe, {
+          folder: 'storage-probes',
+          filename: `probe-${Date.now()}`,
+        });
+        const uploadMs = Date.now() - started;
+
+        stage = 'delete';
+        await service.delete(result.publicId!);
+
+        res.json({
+          success: true,
+          message: 'Connection test passed',
+          data: {
+            upload_ms: uploadMs,
+            delete_ms: Date.now() - started - uploadMs,
+          },
+        });
+      } catch (error: any) {
+        res.status(502).json({
+          success: false,
+          error: `Connection test failed during ${stage}: ${error.message || 'unknown error'}`,
+        });
+      }
+    } catch (error: any) {
+      console.error('Test storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to test storage provider',
+      });
+    }
+  }
+
+  // Make a provider the primary upload target (owner only)
+  static async activate(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+      const { exclusive } = req.body;
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      // Highest priority wins; other active providers remain as failover unless exclusive
+      const maxPriority = await StorageProviderModel.getMaxPriority();
+      await StorageProviderModel.update(providerId, {
+        is_active: 1,
+        priority: maxPriority + 1,
+      });
+
+      if (exclusive === true || exclusive === 'true') {
+        await StorageProviderModel.deactivateOthers(providerId);
+      }
+
+      StorageFactory.reset();
+
+      const updatedProvider = await StorageProviderModel.findById(providerId);
+
+      res.json({
+        success: true,
+        message: 'Storage provider activated successfully',
+        data: StorageProviderController.mask(updatedProvider!),
+      });
+    } catch (error: any) {
+      console.error('Activate storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to activate storage provider',
+      });
+    }
+  }
+
+  // Take a provider out of rotation (owner only)
+  static async deactivate(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      const active = await StorageProviderModel.getActive();
+      if (active.length === 1 && active[0].id === providerId) {
+        res.status(400).json({
+          success: false,
+          error: 'Cannot deactivate the only active storage provider',
+        });
+        return;
+      }
+
+      await StorageProviderModel.update(providerId, { is_active: 0 });
+      StorageFactory.reset();
+
+      res.json({
+        success: true,
+        message: 'Storage provider deactivated successfully',
+      });
+    } catch (error: any) {
+      console.error('Deactivate storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate storage provider',
+      });
+    }
+  }
+
+  // Mirror every upload to a provider for disaster recovery (owner only)
+  static async setMirror(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      // Only one mirror at a time; the previous one keeps its replicas
+      await StorageProviderModel.setMirror(providerId);
+      StorageFactory.reset();
+
+      const updatedProvider = await StorageProviderModel.findById(providerId);
+
+      res.json({
+        success: true,
+        message: 'Storage provider set as mirror successfully',
+        data: StorageProviderController.mask(updatedProvider!),
+      });
+    } catch (error: any) {
+      console.error('Set mirror storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to set mirror storage provider',
+      });
+    }
+  }
+
+  // Stop mirroring uploads to a provider (owner only)
+  static async unsetMirror(req: Request, res: Response): Promise<void> {
+    try {
+      const providerId = parseInt(req.params.id);
+
+      const provider = await StorageProviderModel.findById(providerId);
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          error: 'Storage provider not found',
+        });
+        return;
+      }
+
+      if (!provider.is_mirror) {
+        res.status(400).json({
+          success: false,
+          error: 'Storage provider is not the mirror',
+        });
+        return;
+      }
+
+      await StorageProviderModel.setMirror(null);
+      StorageFactory.reset();
+
+      res.json({
+        success: true,
+        message: 'Mirroring disabled successfully',
+      });
+    } catch (error: any) {
+      console.error('Unset mirror storage provider error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to disable mirroring',
+      });
+    }
+  }
+
+  // Helper: Hide secret config values
+  private static mask(provider: StorageProviderConfig): StorageProviderConfig {
+    const config: Record<string, any> = { ...provider.config };
+
+    for (const field of StorageProviderModel.SECRET_FIELDS) {
+      if (config[field]) config[field] = MASK;
+    }
+
+    return { ...provider, config } as StorageProviderConfig;
+  }
+
+  // Helper: Check required config keys for a provider
+  private static validateConfig(providerName: StorageProvider, config: Record<string, any>): string[] {
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      return ['config must be an object'];
+    }
+
+    return REQUIRED_FIELDS[providerName]
+      .filter((field) => typeof config[field] !== 'string' || config[field].trim().length === 0)
+      .map((field) => `config.${field} is required`);
+  }
+}
@@ -1,11 +1,82 @@
 import { Request, Response } from 'express';
 import { WallpaperModel } from '../models/Wallpaper.model';
 import { WallpaperResolutionModel } from '../models/WallpaperResolution.model';
-import { SlugUtil } from '../utils/slug.util';
+import { WallpaperFormatModel } from '../models/WallpaperFormat.model';
+import { WallpaperRenderModel } from '../models/WallpaperRender.model';
+import { WallpaperMetadataModel } from '../models/WallpaperMetadata.model';
+import { UploadSessionModel } from '../models/UploadSession.model';
+import { ProcessingJobModel } from '../models/ProcessingJob.model';
+import { StorageAttempt } from '../services/storage/FailoverStorageService';
 import { StorageFactory } from '../services/storage/StorageFactory';
+import { ReplicaService } from '../services/storage/ReplicaService';
+import { WallpaperUploadInput, WallpaperUploadService } from '../services/WallpaperUploadService';
+import { WallpaperProcessingService } from '../services/WallpaperProcessingService';
+import { BackfillResult, BackfillService } from '../services/BackfillService';
+import { RenderService } from '../services/RenderService';
 import { ImageProcessingService } from '../services/ImageProcessingService';
-import { WallpaperSource } from '../types';
+import { QualityGateService } from '../services/QualityGateService';
+import { FormatUtil } from '../utils/format.util';
+import { ColorUtil, Lab } from '../utils/color.util';
+import { FingerprintUtil } from '../utils/fingerprint.util';
+import {
+  ProcessingJobStatus,
+  ProcessingJobType,
+  QualityReport,
+  UploadSessionStatus,
+  Wallpaper,
+  WallpaperProcessingStatus,
+} from '../types';
 import multer from 'multer';
+import crypto from 'crypto';
+
+const ALLOWED_FILE_TYPES = (process.env.ALLOWED_FILE_TYPES || 'image/jpeg,image/png,image/webp,image/gif').split(',');
+
+// Direct uploads bypass the API server, so they can be much larger
+const DIRECT_UPLOAD_MAX_SIZE = parseInt(process.env.DIRECT_UPLOAD_MAX_SIZE || '104857600'); // 100MB default
+const DIRECT_UPLOAD_TTL = parseInt(process.env.DIRECT_UPLOAD_TTL || '3600');
+
+// Perceptual-hash distances (differing bits of 64) for near-duplicate warnings and similarity search
+const NEAR_DUPLICATE_DISTANCE = parseInt(process.env.NEAR_DUPLICATE_DISTANCE || '4');
+const SIMILAR_MAX_DISTANCE = parseInt(process.env.SIMILAR_MAX_DISTANCE || '12');
+
+// Backfills by route name: what they run and how they report it
+const BACKFILLS = new Map<
+  string,
+  { run: (afterId: number, limit: number) => Promise<BackfillResult>; done: string; name: string }
+>([
+  [
+    'content-hash',
+    {
+      run: (afterId, limit) => BackfillService.contentHashes(afterId, limit),
+      done: 'Hashed',
+      name: 'content hashes',
+    },
+  ],
+  [
+    'palette',
+    {
+      run: (afterId, limit) => BackfillService.palettes(afterId, limit),
+      done: 'Extracted palettes of',
+      name: 'palettes',
+    },
+  ],
+  [
+    'placeholders',
+    {
+      run: (afterId, limit) => BackfillService.placeholders(afterId, limit),
+      done: 'Generated placeholders of',
+      name: 'placeholders',
+    },
+  ],
+  [
+    'perceptual-hash',
+    {
+      run: (afterId, limit) => BackfillService.perceptualHashes(afterId, limit),
+      done: 'Hashed',
+      name: 'perceptual hashes',
+    },
+  ],
+]);
 
 // Configure multer for file uploads
 const upload = multer({
@@ -14,8 +85,7 @@ const upload = multer({
     fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = (process.env.ALLOWED_FILE_TYPES || 'image/jpeg,image/png,image/webp').split(',');
-    if (allowedTypes.includes(file.mimetype)) {
+    if (ALLOWED_FILE_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error('Invalid file type'));
@@ -33,17 +103,47 @@ export class WallpaperController {
       const limit = parseInt(req.query.limit as string) || 20;
       const categoryId = req.query.category ? parseInt(req.query.category as string) : undefined;
       const isFeatured = req.query.featured === 'true' ? true : undefined;
+      // ?animated=true for animated wallpapers only, ?animated=false for static ones
+      const isAnimated =
+        req.query.animated !== undefined ? req.query.animated === 'true' : undefined;
       const search = req.query.search as string;
 
+      // Colour search: ?color=1e90ff (or %23 for the #) and an optional ΔE tolerance
+      let color: { lab: Lab; tolerance: number } | undefined;
+      if (req.query.color) {
+        const rgb = ColorUtil.parseHex(req.query.color as string);
+        const tolerance =
+          req.query.tolerance !== undefined ? parseFloat(req.query.tolerance as string) : 20;
+
+        if (!rgb) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid color. Use a hex value such as #1e90ff',
+          });
+          return;
+        }
+        if (isNaN(tolerance) || tolerance <= 0 || tolerance > 100) {
+          res.status(400).json({
+            success: false,
+            error: 'tolerance must be a number between 0 and 100',
+          });
+          return;
+        }
+
+        color = { lab: ColorUtil.rgbToLab(rgb.r, rgb.g, rgb.b), tolerance };
+      }
+
       const { wallpapers, total } = await WallpaperModel.getAll(page, limit, {
         categoryId,
         isFeatured,
+        isAnimated,
         search,
+        color,
       });
 
       res.json({
         success: true,
-        data: wallpapers,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(wallpapers)),
         pagination: {
           page,
           limit,
@@ -67,7 +167,7 @@ export class WallpaperController {
 
       const wallpaper = await WallpaperModel.findBySlug(slug);
 
-      if (!wallpaper) {
+      if (!WallpaperController.isPublic(wallpaper)) {
         res.status(404).json({
           success: false,
           error: 'Wallpaper not found',
@@ -80,7 +180,7 @@ export class WallpaperController {
 
       res.json({
         success: true,
-        data: wallpaper,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback([wallpaper]))[0],
       });
     } catch (error: any) {
       console.error('Get wallpaper error:', error);
@@ -99,7 +199,7 @@ export class WallpaperController {
 
       res.json({
         success: true,
-        data: wallpapers,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(wallpapers)),
       });
     } catch (error: any) {
       console.error('Get featured wallpapers error:', error);
@@ -118,7 +218,7 @@ export class WallpaperController {
 
       res.json({
         success: true,
-        data: wallpapers,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(wallpapers)),
       });
     } catch (error: any) {
       console.error('Get trending wallpapers error:', error);
@@ -148,7 +248,7 @@ export class WallpaperController {
 
       res.json({
         success: true,
-        data: wallpapers,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(wallpapers)),
         pagination: {
           page,
           limit,
@@ -176,146 +276,393 @@ export class WallpaperController {
         return;
       }
 
-      const { title, description, tags, category_ids, is_featured } = req.body;
+      const input = WallpaperController.parseUploadInput(req, res, req.file.buffer);
+      if (!input) return;
 
-      // Parse category_ids
-      let categoryIds: number[] = [];
-      try {
-        categoryIds = typeof category_ids === 'string' ? JSON.parse(category_ids) : category_ids;
-      } catch (e) {
+      // Validate image
+      const validation = await WallpaperUploadService.validate(
+        req.file.buffer,
+        parseInt(process.env.MAX_FILE_SIZE || '10485760')
+      );
+
+      if (!validation.valid) {
         res.status(400).json({
           success: false,
-          error: 'Invalid category_ids format',
+          errors: validation.errors,
         });
         return;
       }
 
-      // Validate image
-      const validation = await ImageProcessingService.validate(req.file.buffer, {
-        maxWidth: 10000,
-        maxHeight: 10000,
-        maxSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'),
-        allowedFormats: ['jpeg', 'jpg', 'png', 'webp'],
+      const quality = await WallpaperController.checkQuality(req, res, req.file.buffer);
+      if (!quality) return;
+
+      input.contentHash = await WallpaperController.checkDuplicate(req, res, req.file.buffer);
+      if (!input.contentHash) return;
+
+      const { wallpaper, jobId } = await WallpaperUploadService.create(input);
+
+      // Near-duplicates don't block the upload, the admin just gets warned
+      const nearDuplicates = await WallpaperUploadService.findNearDuplicates(
+        wallpaper,
+        NEAR_DUPLICATE_DISTANCE
+      );
+
+      // Derived images are generated in the background; progress at /:id/processing-status
+      res.status(202).json({
+        success: true,
+        message: 'Wallpaper uploaded, processing started',
+        data: wallpaper,
+        job_id: jobId,
+        near_duplicates: nearDuplicates,
+        quality_warnings: quality.warnings,
+      });
+    } catch (error: any) {
+      console.error('Upload wallpaper error:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to upload wallpaper',
       });
+    }
+  }
 
-      if (!validation.valid) {
+  // Start a direct-to-storage upload (admin only)
+  static async createUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { content_type, size } = req.body;
+
+      if (!content_type || !ALLOWED_FILE_TYPES.includes(content_type)) {
         res.status(400).json({
           success: false,
-          errors: validation.errors,
+          error: `Invalid content_type. Allowed: ${ALLOWED_FILE_TYPES.join(', ')}`,
         });
         return;
       }
 
-      // Extract metadata
-      const metadata = await ImageProcessingService.getMetadata(req.file.buffer);
-      const primaryColor = await ImageProcessingService.extractPrimaryColor(req.file.buffer);
-
-      // Generate slug
-      const slug = SlugUtil.generateWithTimestamp(title);
-
-      // Get storage service
-      const storageService = await StorageFactory.getActiveService();
-
-      // Generate thumbnail and medium
-      const thumbnail = await ImageProcessingService.generateThumbnail(req.file.buffer);
-      const medium = await ImageProcessingService.generateMedium(req.file.buffer);
-
-      // Upload images
-      const [originalUpload, thumbnailUpload, mediumUpload] = await Promise.all([
-        storageService.upload(req.file.buffer, {
-          folder: 'wallpapers/original',
-          filename: slug,
-        }),
-        storageService.upload(thumbnail.buffer, {
-          folder: 'wallpapers/thumbnails',
-          filename: `${slug}-thumb`,
-        }),
-        storageService.upload(medium.buffer, {
-          folder: 'wallpapers/medium',
-          filename: `${slug}-medium`,
-        }),
-      ]);
-
-      // Get storage provider ID (default to Cloudinary)
-      const storageProviderId = 1; // You can make this dynamic
-
-      // Create wallpaper
-      const wallpaperId = await WallpaperModel.create({
-        title,
-        slug,
-        description,
-        original_url: originalUpload.url,
-        thumbnail_url: thumbnailUpload.url,
-        medium_url: mediumUpload.url,
-        primary_color: primaryColor,
-        tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : [],
-        source: WallpaperSource.ADMIN,
+      if (size !== undefined && (!(parseInt(size) > 0) || parseInt(size) > DIRECT_UPLOAD_MAX_SIZE)) {
+        res.status(400).json({
+          success: false,
+          error: `File size must be between 1 and ${DIRECT_UPLOAD_MAX_SIZE} bytes`,
+        });
+        return;
+      }
+
+      // First healthy provider (by priority) that can hand out upload URLs
+      const providers = await StorageFactory.getActiveProviders();
+      const provider = providers.find(
+        (p) => p.service.getSignedUploadUrl && StorageFactory.isHealthy(p.id)
+      );
+
+      if (!provider) {
+        res.status(400).json({
+          success: false,
+          error: 'No active storage provider supports direct uploads',
+        });
+        return;
+      }
+
+      const extension = content_type.split('/')[1].replace('jpeg', 'jpg');
+      const publicId = `wallpapers/original/upload-${crypto.randomBytes(12).toString('hex')}.${extension}`;
+
+      const signed = await provider.service.getSignedUploadUrl!(publicId, {
+        contentType: content_type,
+        expiresIn: DIRECT_UPLOAD_TTL,
+        maxSize: DIRECT_UPLOAD_MAX_SIZE,
+      });
+
+      const expiresAt = new Date(Date.now() + DIRECT_UPLOAD_TTL * 1000);
+      const sessionId = await UploadSessionModel.create({
+        storage_provider_id: provider.id,
+        public_id: publicId,
+        content_type,
+        max_size: DIRECT_UPLOAD_MAX_SIZE,
         uploaded_by: req.user!.userId,
-        storage_provider_id: storageProviderId,
-        is_featured: is_featured === 'true' || is_featured === true ? 1 : 0,
+        expires_at: expiresAt,
       });
 
-      // Add categories
-      if (categoryIds.length > 0) {
-        await WallpaperModel.addCategories(wallpaperId, categoryIds);
+      res.status(201).json({
+        success: true,
+        data: {
+          id: sessionId,
+          upload_url: signed.url,
+          method: signed.method,
+          headers: signed.headers,
+          max_size: DIRECT_UPLOAD_MAX_SIZE,
+          expires_at: expiresAt,
+        },
+      });
+    } catch (error: any) {
+      console.error('Create upload session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create upload session',
+      });
+    }
+  }
+
+  // Create the wallpaper from a direct upload (admin only)
+  static async finalizeUpload(req: Request, res: Response): Promise<void> {
+    const sessionId = parseInt(req.params.id);
+    let claimed = false;
+
+    try {
+      const session = await UploadSessionModel.findById(sessionId);
+
+      if (!session || session.uploaded_by !== req.user!.userId) {
+        res.status(404).json({
+          success: false,
+          error: 'Upload session not found',
+        });
+        return;
       }
 
-      // Generate resolutions
-      const resolutions = await ImageProcessingService.generateAllResolutions(req.file.buffer, false);
+      if (session.status === UploadSessionStatus.PENDING && new Date(session.expires_at) < new Date()) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.EXPIRED);
+        session.status = UploadSessionStatus.EXPIRED;
+      }
 
-      const resolutionData = [];
-      for (const [name, processed] of resolutions) {
-        const resUpload = await storageService.upload(processed.buffer, {
-          folder: 'wallpapers/resolutions',
-          filename: `${slug}-${name.toLowerCase().replace(/\s+/g, '-')}`,
+      if (session.status !== UploadSessionStatus.PENDING) {
+        res.status(409).json({
+          success: false,
+          error: `Upload session is ${session.status}`,
         });
+        return;
+      }
 
-        resolutionData.push({
-          wallpaper_id: wallpaperId,
-          width: processed.width,
-          height: processed.height,
-          resolution_name: name,
-          file_size: processed.size,
-          url: resUpload.url,
-          is_original: (name === 'original' ? 1 : 0) as 0 | 1,
+      // Guard against the same session being finalized twice concurrently
+      claimed = await UploadSessionModel.claim(sessionId);
+      if (!claimed) {
+        res.status(409).json({
+          success: false,
+          error: 'Upload session is already being finalized',
         });
+        return;
       }
 
-      // Add original resolution
-      resolutionData.push({
-        wallpaper_id: wallpaperId,
-        width: metadata.width || 0,
-        height: metadata.height || 0,
-        resolution_name: 'Original',
-        file_size: req.file.size,
-        url: originalUpload.url,
-        is_original: 1 as 0 | 1,
+      const storage = await StorageFactory.getServiceById(session.storage_provider_id);
+
+      let original: Buffer;
+      try {
+        original = await storage.download(session.public_id);
+      } catch (error) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING);
+        res.status(400).json({
+          success: false,
+          error: 'Uploaded file not found',
+        });
+        return;
+      }
+
+      const input = WallpaperController.parseUploadInput(req, res, original);
+      if (!input) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING);
+        return;
+      }
+
+      // Validate image
+      const validation = await WallpaperUploadService.validate(original, session.max_size);
+
+      if (!validation.valid) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING);
+        res.status(400).json({
+          success: false,
+          errors: validation.errors,
+        });
+        return;
+      }
+
+      const quality = await WallpaperController.checkQuality(req, res, original);
+      if (!quality) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING);
+        return;
+      }
+
+      input.contentHash = await WallpaperController.checkDuplicate(req, res, original);
+      if (!input.contentHash) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING);
+        return;
+      }
+
+      // Derived files go to the provider already holding the original
+      const { wallpaper, jobId } = await WallpaperUploadService.create(input, {
+        attempt: new StorageAttempt(session.storage_provider_id, storage),
+        storedOriginal: {
+          url: storage.getUrl(session.public_id),
+          publicId: session.public_id,
+          size: original.length,
+        },
       });
 
-      await WallpaperResolutionModel.bulkCreate(resolutionData);
+      await UploadSessionModel.markFinalized(sessionId, wallpaper.id);
 
-      // Get created wallpaper with all data
-      const wallpaper = await WallpaperModel.findById(wallpaperId);
+      const nearDuplicates = await WallpaperUploadService.findNearDuplicates(
+        wallpaper,
+        NEAR_DUPLICATE_DISTANCE
+      );
 
-      res.status(201).json({
+      res.status(202).json({
         success: true,
-        message: 'Wallpaper uploaded successfully',
+        message: 'Wallpaper uploaded, processing started',
         data: wallpaper,
+        job_id: jobId,
+        near_duplicates: nearDuplicates,
+        quality_warnings: quality.warnings,
       });
     } catch (error: any) {
-      console.error('Upload wallpaper error:', error);
+      console.error('Finalize upload error:', error);
+
+      // Let the admin retry; the uploaded original is kept
+      if (claimed) {
+        await UploadSessionModel.updateStatus(sessionId, UploadSessionStatus.PENDING).catch(
+          () => undefined
+        );
+      }
+
       res.status(500).json({
         success: false,
-        error: error.message || 'Failed to upload wallpaper',
+        error: error.message || 'Failed to finalize upload',
       });
     }
   }
 
+  // Fill in a derived field of existing wallpapers in batches (admin only)
+  static async backfill(req: Request, res: Response): Promise<void> {
+    const backfill = BACKFILLS.get(req.params.kind);
+    if (!backfill) {
+      res.status(404).json({
+        success: false,
+        error: `Unknown backfill. Available: ${[...BACKFILLS.keys()].join(', ')}`,
+      });
+      return;
+    }
+
+    try {
+      const afterId = parseInt(req.body.after_id) || 0;
+      const limit = Math.min(parseInt(req.body.limit) || 50, 500);
+
+      const result = await backfill.run(afterId, limit);
+
+      res.json({
+        success: true,
+        message: `${backfill.done} ${result.updated} of ${result.processed} wallpapers`,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error(`Backfill ${backfill.name} error:`, error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to backfill ${backfill.name}`,
+      });
+    }
+  }
+
+  // Helper: Whether a wallpaper may be shown publicly; until processing finishes its
+  // thumbnail and medium URLs still point at the original
+  private static isPublic(wallpaper: Wallpaper | null): wallpaper is Wallpaper {
+    return wallpaper?.processing_status === WallpaperProcessingStatus.READY;
+  }
+
+  // Helper: Drop the hashes and storage keys, which only serve internal lookups, from
+  // wallpapers sent to the public
+  private static toPublic<T extends Wallpaper>(wallpapers: T[]) {
+    return wallpapers.map(
+      ({
+        content_hash,
+        perceptual_hash,
+        original_public_id,
+        thumbnail_public_id,
+        medium_public_id,
+        ...wallpaper
+      }) => wallpaper
+    );
+  }
+
+  // Helper: Hash the original and answer 409 if it's already uploaded (unless `force` is set)
+  private static async checkDuplicate(
+    req: Request,
+    res: Response,
+    original: Buffer
+  ): Promise<string | undefined> {
+    const { contentHash, duplicate } = await WallpaperUploadService.findDuplicate(original);
+    const force = req.body.force === true || req.body.force === 'true';
+
+    if (duplicate && !force) {
+      res.status(409).json({
+        success: false,
+        error: 'This image has already been uploaded',
+        data: {
+          existing_wallpaper: duplicate,
+        },
+      });
+      return undefined;
+    }
+
+    return contentHash;
+  }
+
+  // Helper: Run the quality gate; responds (and returns undefined) if the upload is rejected.
+  // Warnings pass once the admin re-submits with accept_warnings.
+  private static async checkQuality(
+    req: Request,
+    res: Response,
+    original: Buffer
+  ): Promise<QualityReport | undefined> {
+    const report = await QualityGateService.check(original);
+    const acceptWarnings =
+      req.body.accept_warnings === true || req.body.accept_warnings === 'true';
+
+    if (report.errors.length > 0 || (report.warnings.length > 0 && !acceptWarnings)) {
+      res.status(422).json({
+        success: false,
+        error:
+          report.errors.length > 0
+            ? 'Image does not meet the quality requirements'
+            : 'Image has quality warnings; re-submit with accept_warnings=true to upload anyway',
+        data: {
+          quality: report,
+        },
+      });
+      return undefined;
+    }
+
+    return report;
+  }
+
+  // Helper: Wallpaper fields shared by multipart and direct uploads
+  private static parseUploadInput(
+    req: Request,
+    res: Response,
+    original: Buffer
+  ): WallpaperUploadInput | null {
+    const { title, description, tags, category_ids, is_featured } = req.body;
+
+    // Parse category_ids
+    let categoryIds: number[] = [];
+    try {
+      categoryIds = typeof category_ids === 'string' ? JSON.parse(category_ids) : category_ids;
+    } catch (e) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid category_ids format',
+      });
+      return null;
+    }
+
+    return {
+      original,
+      title,
+      description,
+      tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : [],
+      categoryIds,
+      isFeatured: is_featured === 'true' || is_featured === true,
+      uploadedBy: req.user!.userId,
+    };
+  }
+
   // Update wallpaper (admin only)
   static async update(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { title, description, tags, category_ids, is_featured } = req.body;
+      const { title, description, tags, category_ids, is_featured, focal_point } = req.body;
 
       const wallpaper = await WallpaperModel.findById(parseInt(id));
       if (!wallpaper) {
@@ -332,6 +679,7 @@ export class WallpaperController {
         description,
         tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : undefined,
         is_featured: is_featured !== undefined ? (is_featured === 'true' || is_featured === true ? 1 : 0) : undefined,
+        focal_point,
       });
 
       // Update categories if provided
@@ -343,6 +691,27 @@ export class WallpaperController {
 
       const updatedWallpaper = await WallpaperModel.findById(parseInt(id));
 
+      // A new focal point changes every crop; a background job re-cuts them from the original.
+      // Wallpapers still in the queue get cropped with it when they're processed.
+      if (
+        focal_point !== undefined &&
+        updatedWallpaper!.processing_status === WallpaperProcessingStatus.READY &&
+        JSON.stringify(focal_point) !== JSON.stringify(wallpaper.focal_point ?? null)
+      ) {
+        const jobId = await WallpaperProcessingService.enqueue(
+          updatedWallpaper!.id,
+          ProcessingJobType.RECROP
+        );
+
+        res.status(202).json({
+          success: true,
+          message: 'Wallpaper updated; crops are being regenerated',
+          data: updatedWallpaper,
+          job_id: jobId,
+        });
+        return;
+      }
+
       res.json({
         success: true,
         message: 'Wallpaper updated successfully',
@@ -386,13 +755,88 @@ export class WallpaperController {
     }
   }
 
+  // Get metadata stripped from the original on upload (admin only)
+  static async getMetadata(req: Request, res: Response): Promise<void> {
+    try {
+      const metadata = await WallpaperMetadataModel.findByWallpaperId(parseInt(req.params.id));
+      if (!metadata) {
+        res.status(404).json({
+          success: false,
+          error: 'No metadata was removed from this wallpaper',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: metadata,
+      });
+    } catch (error: any) {
+      console.error('Get wallpaper metadata error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch wallpaper metadata',
+      });
+    }
+  }
+
+  // Get progress and errors of a wallpaper's background processing (admin only)
+  static async getProcessingStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const wallpaper = await WallpaperModel.findById(parseInt(req.params.id));
+      if (!wallpaper) {
+        res.status(404).json({
+          success: false,
+          error: 'Wallpaper not found',
+        });
+        return;
+      }
+
+      const job = await ProcessingJobModel.findLatestByWallpaperId(wallpaper.id);
+
+      res.json({
+        success: true,
+        data: {
+          wallpaper_id: wallpaper.id,
+          processing_status: wallpaper.processing_status,
+          job: job && {
+            id: job.id,
+            type: job.type,
+            status: job.status,
+            attempts: job.attempts,
+            max_attempts: job.max_attempts,
+            progress: {
+              completed: job.completed_steps,
+              total: job.total_steps,
+              percent:
+                job.total_steps > 0
+                  ? Math.round((job.completed_steps / job.total_steps) * 100)
+                  : 0,
+            },
+            errors: job.errors || [],
+            error: job.error || null,
+            next_attempt_at: job.status === ProcessingJobStatus.PENDING ? job.run_after : null,
+            started_at: job.started_at || null,
+            completed_at: job.completed_at || null,
+          },
+        },
+      });
+    } catch (error: any) {
+      console.error('Get processing status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch processing status',
+      });
+    }
+  }
+
   // Get wallpaper resolutions (public)
   static async getResolutions(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
 
       const wallpaper = await WallpaperModel.findById(parseInt(id));
-      if (!wallpaper) {
+      if (!WallpaperController.isPublic(wallpaper)) {
         res.status(404).json({
           success: false,
           error: 'Wallpaper not found',
@@ -400,11 +844,18 @@ export class WallpaperController {
         return;
       }
 
-      const resolutions = await WallpaperResolutionModel.getByWallpaperId(parseInt(id));
+      const formats = await WallpaperFormatModel.getByWallpaperId(wallpaper.id);
+      wallpaper.resolutions = (await WallpaperResolutionModel.getByWallpaperId(wallpaper.id)).map(
+        (resolution) => ({
+          ...resolution,
+          formats: formats.filter((f) => f.resolution_id === resolution.id),
+        })
+      );
+      await ReplicaService.withFallback([wallpaper]);
 
       res.json({
         success: true,
-        data: resolutions,
+        data: wallpaper.resolutions,
       });
     } catch (error: any) {
       console.error('Get wallpaper resolutions error:', error);
@@ -414,4 +865,204 @@ export class WallpaperController {
       });
     }
   }
+
+  // Get visually similar wallpapers (public)
+  static async getSimilar(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const limit = Math.min(parseInt(req.query.limit as string) || 12, 50);
+
+      const wallpaper = await WallpaperModel.findById(parseInt(id));
+      if (!WallpaperController.isPublic(wallpaper)) {
+        res.status(404).json({
+          success: false,
+          error: 'Wallpaper not found',
+        });
+        return;
+      }
+
+      const similar = wallpaper.perceptual_hash
+        ? await WallpaperModel.findSimilar(
+            wallpaper.perceptual_hash,
+            SIMILAR_MAX_DISTANCE,
+            limit,
+            wallpaper.id
+          )
+        : [];
+
+      res.json({
+        success: true,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(similar)),
+      });
+    } catch (error: any) {
+      console.error('Get similar wallpapers error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch similar wallpapers',
+      });
+    }
+  }
+
+  // Find wallpapers that look like an uploaded image (public)
+  static async searchByImage(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'Image file is required',
+        });
+        return;
+      }
+
+      const limit = Math.min(parseInt(req.body.limit) || 12, 50);
+
+      let perceptualHash: string;
+      try {
+        perceptualHash = await ImageProcessingService.computePerceptualHash(req.file.buffer);
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid image file',
+        });
+        return;
+      }
+
+      const matches = await WallpaperModel.findSimilar(perceptualHash, SIMILAR_MAX_DISTANCE, limit);
+
+      res.json({
+        success: true,
+        data: WallpaperController.toPublic(await ReplicaService.withFallback(matches)),
+      });
+    } catch (error: any) {
+      console.error('Search by image error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to search by image',
+      });
+    }
+  }
+
+  // Redirect to the thumbnail (or ?size=medium image) in the best format the client accepts (public)
+  static async getPreview(req: Request, res: Response): Promise<void> {
+    try {
+      const size = req.query.size === 'medium' ? 'medium' : 'thumbnail';
+      const requested = req.query.format as string | undefined;
+
+      if (requested && !FormatUtil.REQUESTABLE.includes(requested)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid format. Allowed: ${FormatUtil.REQUESTABLE.join(', ')}`,
+        });
+        return;
+      }
+
+      const wallpaper = await WallpaperModel.findById(parseInt(req.params.id));
+      if (!WallpaperController.isPublic(wallpaper)) {
+        res.status(404).json({
+          success: false,
+          error: 'Wallpaper not found',
+        });
+        return;
+      }
+
+      const formats = await WallpaperFormatModel.getByAsset(wallpaper.id, size);
+      const wanted =
+        requested || FormatUtil.negotiate(req.headers.accept, formats.map((f) => f.format));
+      const variant = formats.find((f) => f.format === wanted);
+
+      if (requested && requested !== 'jpeg' && !variant) {
+        res.status(404).json({
+          success: false,
+          error: `Image is not available as ${requested}`,
+        });
+        return;
+      }
+
+      // Variants aren't mirrored, so a cooling-down provider means the replica JPEG
+      await ReplicaService.withFallback([wallpaper]);
+      const base = (size === 'medium' && wallpaper.medium_url) || wallpaper.thumbnail_url;
+      const url =
+        variant && StorageFactory.isHealthy(wallpaper.storage_provider_id) ? variant.url : base;
+
+      res.setHeader('Vary', 'Accept');
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      res.redirect(302, url);
+    } catch (error: any) {
+      console.error('Get wallpaper preview error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch wallpaper preview',
+      });
+    }
+  }
+
+  // Redirect to a custom-size render, producing and caching it on first request (public)
+  static async render(req: Request, res: Response): Promise<void> {
+    try {
+      const { request, errors } = RenderService.parse(req.query, req.headers.accept);
+      if (!request) {
+        res.status(400).json({
+          success: false,
+          errors,
+        });
+        return;
+      }
+
+      const wallpaper = await WallpaperModel.findById(parseInt(req.params.id));
+      if (!WallpaperController.isPublic(wallpaper)) {
+        res.status(404).json({
+          success: false,
+          error: 'Wallpaper not found',
+        });
+        return;
+      }
+
+      const original = wallpaper.resolutions?.find((resolution) => resolution.is_original);
+      if (!original) {
+        res.status(409).json({
+          success: false,
+          error: 'Wallpaper has no original to render from',
+        });
+        return;
+      }
+
+      const params = RenderService.resolve(request, original);
+      const cacheKey = RenderService.cacheKey(params);
+      if (!req.query.format) res.setHeader('Vary', 'Accept');
+
+      let render = await WallpaperRenderModel.find(wallpaper.id, cacheKey);
+      if (render) {
+        await WallpaperRenderModel.recordHit(render.id);
+      } else {
+        // Misses cost CPU and storage, so they're budgeted per client and per wallpaper
+        if (!RenderService.takeMiss(FingerprintUtil.getClientIP(req))) {
+          res.status(429).json({
+            success: false,
+            error: 'Too many new render sizes requested; try again later',
+          });
+          return;
+        }
+
+        const renderCount = await WallpaperRenderModel.countByWallpaperId(wallpaper.id);
+        if (renderCount >= RenderService.MAX_PER_WALLPAPER) {
+          res.status(429).json({
+            success: false,
+            error: 'This wallpaper has reached its render limit; pick a listed resolution instead',
+          });
+          return;
+        }
+
+        render = await RenderService.render(wallpaper, params);
+      }
+
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      res.redirect(302, render.url);
+    } catch (error: any) {
+      console.error('Render wallpaper error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to render wallpaper',
+      });
+    }
+  }
 }
@@ -12,6 +12,16 @@ import downloadRoutes from './routes/download.routes';
 import favoriteRoutes from './routes/favorite.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import userRoutes from './routes/user.routes';
+import mediaRoutes from './routes/media.routes';
+import storageMigrationRoutes from './routes/storageMigration.routes';
+import storageRoutes from './routes/storage.routes';
+import storageProviderRoutes from './routes/storageProvider.routes';
+import integrityScanRoutes from './routes/integrityScan.routes';
+import resolutionPresetRoutes from './routes/resolutionPreset.routes';
+import { StorageMigrationService } from './services/storage/StorageMigrationService';
+import { IntegrityScanService } from './services/storage/IntegrityScanService';
+import { WallpaperProcessingService } from './services/WallpaperProcessingService';
+import { EncryptionUtil } from './utils/encryption.util';
 
 dotenv.config();
 
@@ -50,6 +60,12 @@ app.get('/', (req: Request, res: Response) => {
       favorites: '/api/v1/favorites',
       analytics: '/api/v1/admin/analytics',
       users: '/api/v1/admin/users',
+      storage: '/api/v1/admin/storage',
+      storageMigrations: '/api/v1/admin/storage-migrations',
+      storageProviders: '/api/v1/admin/storage-providers',
+      integrityScans: '/api/v1/admin/integrity-scans',
+      resolutionPresets: '/api/v1/admin/resolution-presets',
+      media: '/media',
       health: '/health',
     },
   });
@@ -83,6 +99,14 @@ app.use('/api/v1/downloads', downloadRoutes);
 app.use('/api/v1/favorites', favoriteRoutes);
 app.use('/api/v1/admin/analytics', analyticsRoutes);
 app.use('/api/v1/admin/users', userRoutes);
+app.use('/api/v1/admin/storage', storageRoutes);
+app.use('/api/v1/admin/storage-migrations', storageMigrationRoutes);
+app.use('/api/v1/admin/storage-providers', storageProviderRoutes);
+app.use('/api/v1/admin/integrity-scans', integrityScanRoutes);
+app.use('/api/v1/admin/resolution-presets', resolutionPresetRoutes);
+
+// Files stored by the local storage provider
+app.use('/media', mediaRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -112,6 +136,31 @@ app.listen(PORT, async () => {
     console.error('❌ Database connection: FAILED');
     console.error('   Please check your .env configuration\n');
   }
+
+  if (!EncryptionUtil.isConfigured()) {
+    console.error('❌ STORAGE_ENCRYPTION_KEY is not set');
+    console.error('   Storage provider credentials in the database can\'t be saved or read\n');
+  }
+
+  // Resume background jobs interrupted by a restart
+  try {
+    await StorageMigrationService.resumeInterrupted();
+  } catch (error) {
+    console.error('Failed to resume storage migrations:', error);
+  }
+
+  try {
+    await IntegrityScanService.resumeInterrupted();
+  } catch (error) {
+    console.error('Failed to resume integrity scans:', error);
+  }
+
+  // Work through queued wallpaper processing jobs
+  try {
+    await WallpaperProcessingService.start();
+  } catch (error) {
+    console.error('Failed to start wallpaper processing:', error);
+  }
 });
 
 // Graceful shutdown
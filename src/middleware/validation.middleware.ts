@@ -133,6 +133,65 @@ export const validateWallpaper = (
   next();
 };
 
+// Focal point validation (optional; null clears it)
+export const validateFocalPoint = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  let { focal_point } = req.body;
+
+  if (focal_point === undefined || focal_point === null) {
+    next();
+    return;
+  }
+
+  const errors: string[] = [];
+
+  if (typeof focal_point === 'string') {
+    try {
+      focal_point = JSON.parse(focal_point);
+    } catch {
+      focal_point = undefined;
+    }
+  }
+
+  const inRange = (value: any) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  if (!focal_point || typeof focal_point !== 'object' || Array.isArray(focal_point)) {
+    errors.push('focal_point must be an object with x and y, and optionally width and height');
+  } else {
+    const { x, y, width, height } = focal_point;
+
+    if (!inRange(x) || !inRange(y)) {
+      errors.push('focal_point x and y must be numbers between 0 and 1');
+    }
+
+    if (width !== undefined || height !== undefined) {
+      if (!inRange(width) || !inRange(height) || width === 0 || height === 0) {
+        errors.push('focal_point width and height must both be numbers between 0 and 1');
+      } else if (inRange(x) && inRange(y) && (x + width > 1.000001 || y + height > 1.000001)) {
+        errors.push('focal_point box must lie within the image');
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      errors,
+    });
+    return;
+  }
+
+  req.body.focal_point =
+    focal_point.width !== undefined
+      ? { x: focal_point.x, y: focal_point.y, width: focal_point.width, height: focal_point.height }
+      : { x: focal_point.x, y: focal_point.y };
+
+  next();
+};
+
 // Pagination validation
 export const validatePagination = (
   req: Request,
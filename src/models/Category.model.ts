@@ -188,7 +188,7 @@ export class CategoryModel {
       `SELECT COUNT(DISTINCT w.id) as total
        FROM wallpapers w
        JOIN wallpaper_categories wc ON w.id = wc.wallpaper_id
-       WHERE wc.category_id = ? AND w.is_active = 1`,
+       WHERE wc.category_id = ? AND w.is_active = 1 AND w.processing_status = 'ready'`,
       [categoryId]
     );
     const total = countRows[0].total;
@@ -204,6 +204,9 @@ export class CategoryModel {
         w.thumbnail_url,
         w.medium_url,
         w.primary_color,
+        w.blurhash,
+        w.lqip,
+        w.is_animated,
         w.tags,
         w.source,
         w.is_featured,
@@ -213,7 +216,7 @@ export class CategoryModel {
         w.created_at
        FROM wallpapers w
        JOIN wallpaper_categories wc ON w.id = wc.wallpaper_id
-       WHERE wc.category_id = ? AND w.is_active = 1
+       WHERE wc.category_id = ? AND w.is_active = 1 AND w.processing_status = 'ready'
        ORDER BY w.created_at DESC
        LIMIT ? OFFSET ?`,
       [categoryId, limit, offset]
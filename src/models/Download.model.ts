@@ -7,8 +7,8 @@ export class DownloadModel {
   static async create(downloadData: Partial<Download>): Promise<number> {
     const [result] = await pool.query<ResultSetHeader>(
       `INSERT INTO downloads (
-        wallpaper_id, user_id, resolution_id, ip_address, user_agent, device_type
-      ) VALUES (?, ?, ?, ?, ?, ?)`,
+        wallpaper_id, user_id, resolution_id, ip_address, user_agent, device_type, format
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
       [
         downloadData.wallpaper_id,
         downloadData.user_id || null,
@@ -16,6 +16,7 @@ export class DownloadModel {
         downloadData.ip_address || null,
         downloadData.user_agent || null,
         downloadData.device_type || DeviceType.UNKNOWN,
+        downloadData.format || null,
       ]
     );
     return result.insertId;
@@ -168,13 +169,14 @@ export class DownloadModel {
     return rows[0].total;
   }
 
-  // Get downloads by resolution
+  // Get downloads by resolution, with a per-format breakdown
   static async getStatsByResolution(wallpaperId?: number): Promise<any[]> {
     let query = `
       SELECT
         wr.resolution_name,
         wr.width,
         wr.height,
+        COALESCE(d.format, 'unknown') as format,
         COUNT(d.id) as download_count
       FROM downloads d
       JOIN wallpaper_resolutions wr ON d.resolution_id = wr.id
@@ -188,12 +190,31 @@ export class DownloadModel {
     }
 
     query += `
-      GROUP BY wr.resolution_name, wr.width, wr.height
-      ORDER BY download_count DESC
+      GROUP BY wr.resolution_name, wr.width, wr.height, COALESCE(d.format, 'unknown')
     `;
 
     const [rows] = await pool.query<RowDataPacket[]>(query, params);
-    return rows;
+
+    // Fold format rows into one entry per resolution
+    const stats = new Map<string, any>();
+    for (const row of rows) {
+      const key = `${row.resolution_name}:${row.width}x${row.height}`;
+      if (!stats.has(key)) {
+        stats.set(key, {
+          resolution_name: row.resolution_name,
+          width: row.width,
+          height: row.height,
+          download_count: 0,
+          formats: {},
+        });
+      }
+
+      const entry = stats.get(key);
+      entry.download_count += row.download_count;
+      entry.formats[row.format] = row.download_count;
+    }
+
+    return [...stats.values()].sort((a, b) => b.download_count - a.download_count);
   }
 
   // Get recent downloads (admin)
@@ -0,0 +1,247 @@
+import pool from '../config/database';
+import {
+  IntegrityIssue,
+  IntegrityIssueStatus,
+  IntegrityIssueType,
+  IntegrityScan,
+  IntegrityScanStatus,
+} from '../types';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class IntegrityScanModel {
+  // Create new scan
+  static async create(startedBy: number): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO integrity_scans (status, started_by) VALUES (?, ?)',
+      [IntegrityScanStatus.PENDING, startedBy]
+    );
+    return result.insertId;
+  }
+
+  // Get scan by ID
+  static async findById(id: number): Promise<IntegrityScan | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM integrity_scans WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as IntegrityScan) : null;
+  }
+
+  // Get all scans with pagination
+  static async getAll(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ scans: IntegrityScan[]; total: number }> {
+    const offset = (page - 1) * limit;
+
+    const [scans] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM integrity_scans ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      [limit, offset]
+    );
+
+    const [countResult] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM integrity_scans'
+    );
+
+    return {
+      scans: scans as IntegrityScan[],
+      total: countResult[0].total,
+    };
+  }
+
+  // Get scans with a given status
+  static async getByStatus(status: IntegrityScanStatus): Promise<IntegrityScan[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM integrity_scans WHERE status = ? ORDER BY id ASC',
+      [status]
+    );
+    return rows as IntegrityScan[];
+  }
+
+  // Update scan
+  static async update(scanId: number, updates: Partial<IntegrityScan>): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.status) {
+      fields.push('status = ?');
+      values.push(updates.status);
+    }
+    if (updates.total_wallpapers !== undefined) {
+      fields.push('total_wallpapers = ?');
+      values.push(updates.total_wallpapers);
+    }
+    if (updates.processed_wallpapers !== undefined) {
+      fields.push('processed_wallpapers = ?');
+      values.push(updates.processed_wallpapers);
+    }
+    if (updates.issues_found !== undefined) {
+      fields.push('issues_found = ?');
+      values.push(updates.issues_found);
+    }
+    if (updates.last_wallpaper_id !== undefined) {
+      fields.push('last_wallpaper_id = ?');
+      values.push(updates.last_wallpaper_id);
+    }
+    if (updates.error !== undefined) {
+      fields.push('error = ?');
+      values.push(updates.error || null);
+    }
+    if (updates.started_at !== undefined) {
+      fields.push('started_at = ?');
+      values.push(updates.started_at);
+    }
+    if (updates.completed_at !== undefined) {
+      fields.push('completed_at = ?');
+      values.push(updates.completed_at);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(scanId);
+    await pool.query(`UPDATE integrity_scans SET ${fields.join(', ')} WHERE id = ?`, values);
+  }
+
+  // Count active wallpapers a scan has to walk. Wallpapers still being processed point
+  // at placeholder files (the original as thumbnail), so only ready ones are checked.
+  static async countWallpapers(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      "SELECT COUNT(*) as total FROM wallpapers WHERE is_active = 1 AND processing_status = 'ready'"
+    );
+    return rows[0].total;
+  }
+
+  // Get the next batch of active, ready wallpapers after the checkpoint
+  static async getNextWallpapers(afterId: number, limit: number = 20): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, slug, original_url, thumbnail_url, medium_url,
+        original_public_id, thumbnail_public_id, medium_public_id, storage_provider_id,
+        crop_revision
+       FROM wallpapers
+       WHERE is_active = 1 AND processing_status = 'ready' AND id > ?
+       ORDER BY id ASC
+       LIMIT ?`,
+      [afterId, limit]
+    );
+    return rows;
+  }
+
+  // Remove issues from an earlier, interrupted pass over a wallpaper
+  static async clearIssues(scanId: number, wallpaperId: number): Promise<void> {
+    await pool.query('DELETE FROM integrity_issues WHERE scan_id = ? AND wallpaper_id = ?', [
+      scanId,
+      wallpaperId,
+    ]);
+  }
+
+  // Record an issue
+  static async saveIssue(issue: Partial<IntegrityIssue>): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO integrity_issues (
+        scan_id, wallpaper_id, resolution_id, asset, url, public_id, issue,
+        expected_size, actual_size, expected_content_type, actual_content_type, details
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        issue.scan_id,
+        issue.wallpaper_id,
+        issue.resolution_id || null,
+        issue.asset,
+        issue.url,
+        issue.public_id || null,
+        issue.issue,
+        issue.expected_size ?? null,
+        issue.actual_size ?? null,
+        issue.expected_content_type || null,
+        issue.actual_content_type || null,
+        issue.details || null,
+      ]
+    );
+    return result.insertId;
+  }
+
+  // Get issue by ID
+  static async findIssueById(id: number): Promise<IntegrityIssue | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM integrity_issues WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as IntegrityIssue) : null;
+  }
+
+  // Get issues found by a scan
+  static async getIssues(
+    scanId: number,
+    page: number = 1,
+    limit: number = 50,
+    filters?: { issue?: IntegrityIssueType; status?: IntegrityIssueStatus }
+  ): Promise<{ issues: IntegrityIssue[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const params: any[] = [scanId];
+    let where = 'i.scan_id = ?';
+
+    if (filters?.issue) {
+      where += ' AND i.issue = ?';
+      params.push(filters.issue);
+    }
+    if (filters?.status) {
+      where += ' AND i.status = ?';
+      params.push(filters.status);
+    }
+
+    const [issues] = await pool.query<RowDataPacket[]>(
+      `SELECT i.*, w.title, w.slug, r.resolution_name
+       FROM integrity_issues i
+       JOIN wallpapers w ON i.wallpaper_id = w.id
+       LEFT JOIN wallpaper_resolutions r ON i.resolution_id = r.id
+       WHERE ${where}
+       ORDER BY i.wallpaper_id ASC, i.id ASC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    const [countResult] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM integrity_issues i WHERE ${where}`,
+      params
+    );
+
+    return {
+      issues: issues as IntegrityIssue[],
+      total: countResult[0].total,
+    };
+  }
+
+  // Get open issues of a scan
+  static async getOpenIssues(scanId: number): Promise<IntegrityIssue[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM integrity_issues WHERE scan_id = ? AND status = ? ORDER BY id ASC',
+      [scanId, IntegrityIssueStatus.OPEN]
+    );
+    return rows as IntegrityIssue[];
+  }
+
+  // Get issue counts grouped by type and status
+  static async getIssueSummary(scanId: number): Promise<Record<string, Record<string, number>>> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT issue, status, COUNT(*) as count
+       FROM integrity_issues
+       WHERE scan_id = ?
+       GROUP BY issue, status`,
+      [scanId]
+    );
+
+    const summary: Record<string, Record<string, number>> = {};
+    for (const row of rows) {
+      summary[row.issue] = summary[row.issue] || {};
+      summary[row.issue][row.status] = row.count;
+    }
+    return summary;
+  }
+
+  // Mark issue repaired
+  static async markRepaired(id: number): Promise<void> {
+    await pool.query(
+      'UPDATE integrity_issues SET status = ?, repaired_at = NOW() WHERE id = ?',
+      [IntegrityIssueStatus.REPAIRED, id]
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import pool from '../config/database';
+import { ProcessingJob, ProcessingJobStatus, ProcessingJobType } from '../types';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class ProcessingJobModel {
+  // Queue a job for a wallpaper
+  static async create(
+    wallpaperId: number,
+    maxAttempts: number,
+    type: ProcessingJobType = ProcessingJobType.PROCESS
+  ): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO processing_jobs (wallpaper_id, type, status, max_attempts) VALUES (?, ?, ?, ?)',
+      [wallpaperId, type, ProcessingJobStatus.PENDING, maxAttempts]
+    );
+    return result.insertId;
+  }
+
+  // Get a queued job of a wallpaper that hasn't started yet
+  static async findPending(
+    wallpaperId: number,
+    type: ProcessingJobType
+  ): Promise<ProcessingJob | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM processing_jobs
+       WHERE wallpaper_id = ? AND type = ? AND status = ? AND attempts = 0
+       ORDER BY id ASC LIMIT 1`,
+      [wallpaperId, type, ProcessingJobStatus.PENDING]
+    );
+    return rows.length > 0 ? (rows[0] as ProcessingJob) : null;
+  }
+
+  // Get job by ID
+  static async findById(id: number): Promise<ProcessingJob | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM processing_jobs WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as ProcessingJob) : null;
+  }
+
+  // Get the latest job of a wallpaper
+  static async findLatestByWallpaperId(wallpaperId: number): Promise<ProcessingJob | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM processing_jobs WHERE wallpaper_id = ? ORDER BY id DESC LIMIT 1',
+      [wallpaperId]
+    );
+    return rows.length > 0 ? (rows[0] as ProcessingJob) : null;
+  }
+
+  // Get pending jobs that are due, oldest first
+  static async getRunnable(limit: number): Promise<ProcessingJob[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM processing_jobs
+       WHERE status = ? AND run_after <= NOW()
+       ORDER BY run_after ASC, id ASC LIMIT ?`,
+      [ProcessingJobStatus.PENDING, limit]
+    );
+    return rows as ProcessingJob[];
+  }
+
+  // Take a pending job for this worker under a claim token; false if another worker got it first
+  static async claim(id: number, token: string): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE processing_jobs
+       SET status = ?, attempts = attempts + 1, locked_at = NOW(), locked_by = ?,
+         started_at = COALESCE(started_at, NOW()), errors = NULL, error = NULL
+       WHERE id = ? AND status = ?`,
+      [ProcessingJobStatus.RUNNING, token, id, ProcessingJobStatus.PENDING]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // Keep the job's lock alive while the claim still holds it
+  static async heartbeat(id: number, token: string): Promise<void> {
+    await pool.query(
+      'UPDATE processing_jobs SET locked_at = NOW() WHERE id = ? AND status = ? AND locked_by = ?',
+      [id, ProcessingJobStatus.RUNNING, token]
+    );
+  }
+
+  // Check that a claim still holds the job (it's requeued once its heartbeat goes stale)
+  static async isOwner(id: number, token: string): Promise<boolean> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT id FROM processing_jobs WHERE id = ? AND status = ? AND locked_by = ?',
+      [id, ProcessingJobStatus.RUNNING, token]
+    );
+    return rows.length > 0;
+  }
+
+  // Put a failed attempt back in the queue after a delay
+  static async retryLater(
+    id: number,
+    delaySeconds: number,
+    error: string,
+    errors: ProcessingJob['errors'],
+    token: string
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE processing_jobs
+       SET status = ?, run_after = DATE_ADD(NOW(), INTERVAL ? SECOND), locked_at = NULL,
+         locked_by = NULL, error = ?, errors = ?
+       WHERE id = ? AND locked_by = ?`,
+      [
+        ProcessingJobStatus.PENDING,
+        delaySeconds,
+        error,
+        errors ? JSON.stringify(errors) : null,
+        id,
+        token,
+      ]
+    );
+  }
+
+  // Requeue running jobs whose worker stopped sending heartbeats (crash or restart)
+  static async releaseStale(staleMinutes: number): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE processing_jobs SET status = ?, locked_at = NULL, locked_by = NULL
+       WHERE status = ? AND locked_at < DATE_SUB(NOW(), INTERVAL ? MINUTE)`,
+      [ProcessingJobStatus.PENDING, ProcessingJobStatus.RUNNING, staleMinutes]
+    );
+    return result.affectedRows;
+  }
+
+  // Update job; with a claim token, only while that claim holds it
+  static async update(
+    id: number,
+    updates: Partial<ProcessingJob>,
+    token?: string
+  ): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.status) {
+      fields.push('status = ?');
+      values.push(updates.status);
+    }
+    if (updates.total_steps !== undefined) {
+      fields.push('total_steps = ?');
+      values.push(updates.total_steps);
+    }
+    if (updates.completed_steps !== undefined) {
+      fields.push('completed_steps = ?');
+      values.push(updates.completed_steps);
+    }
+    if (updates.errors !== undefined) {
+      fields.push('errors = ?');
+      values.push(updates.errors ? JSON.stringify(updates.errors) : null);
+    }
+    if (updates.error !== undefined) {
+      fields.push('error = ?');
+      values.push(updates.error || null);
+    }
+    if (updates.locked_at !== undefined) {
+      fields.push('locked_at = ?');
+      values.push(updates.locked_at);
+    }
+    if (updates.completed_at !== undefined) {
+      fields.push('completed_at = ?');
+      values.push(updates.completed_at);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+    let where = 'id = ?';
+    if (token) {
+      where += ' AND locked_by = ?';
+      values.push(token);
+    }
+
+    await pool.query(`UPDATE processing_jobs SET ${fields.join(', ')} WHERE ${where}`, values);
+  }
+}
@@ -0,0 +1,113 @@
+import pool from '../config/database';
+import { ResolutionPreset } from '../types';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class ResolutionPresetModel {
+  // Get all presets
+  static async getAll(): Promise<ResolutionPreset[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM resolution_presets ORDER BY sort_order ASC, id ASC'
+    );
+    return rows as ResolutionPreset[];
+  }
+
+  // Get the presets generated for new uploads
+  static async getActive(): Promise<ResolutionPreset[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM resolution_presets WHERE is_active = 1 ORDER BY sort_order ASC, id ASC'
+    );
+    return rows as ResolutionPreset[];
+  }
+
+  // Get preset by ID
+  static async findById(id: number): Promise<ResolutionPreset | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM resolution_presets WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as ResolutionPreset) : null;
+  }
+
+  // Get preset by name
+  static async findByName(name: string): Promise<ResolutionPreset | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM resolution_presets WHERE name = ?',
+      [name]
+    );
+    return rows.length > 0 ? (rows[0] as ResolutionPreset) : null;
+  }
+
+  // Create preset
+  static async create(preset: Partial<ResolutionPreset>): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO resolution_presets (
+        name, width, height, device_class, orientation, format, quality, is_active, sort_order
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        preset.name,
+        preset.width,
+        preset.height,
+        preset.device_class,
+        preset.orientation || null,
+        preset.format || 'jpeg',
+        preset.quality || 90,
+        preset.is_active !== undefined ? preset.is_active : 1,
+        preset.sort_order || 0,
+      ]
+    );
+    return result.insertId;
+  }
+
+  // Update preset
+  static async update(id: number, updates: Partial<ResolutionPreset>): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.width !== undefined) {
+      fields.push('width = ?');
+      values.push(updates.width);
+    }
+    if (updates.height !== undefined) {
+      fields.push('height = ?');
+      values.push(updates.height);
+    }
+    if (updates.device_class) {
+      fields.push('device_class = ?');
+      values.push(updates.device_class);
+    }
+    if (updates.orientation !== undefined) {
+      fields.push('orientation = ?');
+      values.push(updates.orientation);
+    }
+    if (updates.format) {
+      fields.push('format = ?');
+      values.push(updates.format);
+    }
+    if (updates.quality !== undefined) {
+      fields.push('quality = ?');
+      values.push(updates.quality);
+    }
+    if (updates.is_active !== undefined) {
+      fields.push('is_active = ?');
+      values.push(updates.is_active);
+    }
+    if (updates.sort_order !== undefined) {
+      fields.push('sort_order = ?');
+      values.push(updates.sort_order);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+    await pool.query(`UPDATE resolution_presets SET ${fields.join(', ')} WHERE id = ?`, values);
+  }
+
+  // Delete preset
+  static async delete(id: number): Promise<void> {
+    await pool.query('DELETE FROM resolution_presets WHERE id = ?', [id]);
+  }
+}
@@ -0,0 +1,236 @@
+import pool from '../config/database';
+import {
+  StorageMigration,
+  StorageMigrationItem,
+  StorageMigrationItemStatus,
+  StorageMigrationAssetReport,
+  StorageMigrationStatus,
+} from '../types';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class StorageMigrationModel {
+  // Create new migration job
+  static async create(migrationData: Partial<StorageMigration>): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO storage_migrations (source_provider_id, target_provider_id, status, dry_run, started_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        migrationData.source_provider_id || null,
+        migrationData.target_provider_id,
+        migrationData.status || StorageMigrationStatus.PENDING,
+        migrationData.dry_run || 0,
+        migrationData.started_by,
+      ]
+    );
+    return result.insertId;
+  }
+
+  // Get migration by ID
+  static async findById(id: number): Promise<StorageMigration | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_migrations WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as StorageMigration) : null;
+  }
+
+  // Get all migrations with pagination
+  static async getAll(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ migrations: StorageMigration[]; total: number }> {
+    const offset = (page - 1) * limit;
+
+    const [migrations] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_migrations ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      [limit, offset]
+    );
+
+    const [countResult] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM storage_migrations'
+    );
+
+    return {
+      migrations: migrations as StorageMigration[],
+      total: countResult[0].total,
+    };
+  }
+
+  // Get migrations with a given status
+  static async getByStatus(status: StorageMigrationStatus): Promise<StorageMigration[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_migrations WHERE status = ? ORDER BY id ASC',
+      [status]
+    );
+    return rows as StorageMigration[];
+  }
+
+  // Update migration
+  static async update(
+    migrationId: number,
+    updates: Partial<StorageMigration>
+  ): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.status) {
+      fields.push('status = ?');
+      values.push(updates.status);
+    }
+    if (updates.total_wallpapers !== undefined) {
+      fields.push('total_wallpapers = ?');
+      values.push(updates.total_wallpapers);
+    }
+    if (updates.processed_wallpapers !== undefined) {
+      fields.push('processed_wallpapers = ?');
+      values.push(updates.processed_wallpapers);
+    }
+    if (updates.failed_wallpapers !== undefined) {
+      fields.push('failed_wallpapers = ?');
+      values.push(updates.failed_wallpapers);
+    }
+    if (updates.last_wallpaper_id !== undefined) {
+      fields.push('last_wallpaper_id = ?');
+      values.push(updates.last_wallpaper_id);
+    }
+    if (updates.error !== undefined) {
+      fields.push('error = ?');
+      values.push(updates.error || null);
+    }
+    if (updates.started_at !== undefined) {
+      fields.push('started_at = ?');
+      values.push(updates.started_at);
+    }
+    if (updates.completed_at !== undefined) {
+      fields.push('completed_at = ?');
+      values.push(updates.completed_at);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(migrationId);
+    await pool.query(
+      `UPDATE storage_migrations SET ${fields.join(', ')} WHERE id = ?`,
+      values
+    );
+  }
+
+  // Count wallpapers a migration has to walk
+  static async countWallpapers(migration: StorageMigration): Promise<number> {
+    const { where, params } = this.wallpaperFilter(migration);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM wallpapers w WHERE ${where}`,
+      params
+    );
+    return rows[0].total;
+  }
+
+  // Get the next batch of wallpapers after the checkpoint
+  static async getNextWallpapers(
+    migration: StorageMigration,
+    afterId: number,
+    limit: number = 20
+  ): Promise<RowDataPacket[]> {
+    const { where, params } = this.wallpaperFilter(migration);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.id, w.slug, w.original_url, w.thumbnail_url, w.medium_url, w.storage_provider_id,
+        w.crop_revision
+       FROM wallpapers w
+       WHERE ${where} AND w.id > ?
+       ORDER BY w.id ASC
+       LIMIT ?`,
+      [...params, afterId, limit]
+    );
+    return rows;
+  }
+
+  // Record the outcome for a wallpaper (replaces an earlier attempt)
+  static async saveItem(
+    migrationId: number,
+    wallpaperId: number,
+    status: StorageMigrationItemStatus,
+    report: StorageMigrationAssetReport[],
+    error?: string
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO storage_migration_items (migration_id, wallpaper_id, status, report, error)
+       VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE status = VALUES(status), report = VALUES(report), error = VALUES(error)`,
+      [migrationId, wallpaperId, status, JSON.stringify(report), error || null]
+    );
+  }
+
+  // Get per-wallpaper report for a migration
+  static async getItems(
+    migrationId: number,
+    page: number = 1,
+    limit: number = 50,
+    status?: StorageMigrationItemStatus
+  ): Promise<{ items: StorageMigrationItem[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const params: any[] = [migrationId];
+    let where = 'i.migration_id = ?';
+
+    if (status) {
+      where += ' AND i.status = ?';
+      params.push(status);
+    }
+
+    const [items] = await pool.query<RowDataPacket[]>(
+      `SELECT i.*, w.title, w.slug
+       FROM storage_migration_items i
+       JOIN wallpapers w ON i.wallpaper_id = w.id
+       WHERE ${where}
+       ORDER BY i.wallpaper_id ASC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    const [countResult] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM storage_migration_items i WHERE ${where}`,
+      params
+    );
+
+    return {
+      items: items.map((row) => ({
+        ...row,
+        report: typeof row.report === 'string' ? JSON.parse(row.report) : row.report || [],
+      })) as StorageMigrationItem[],
+      total: countResult[0].total,
+    };
+  }
+
+  // Get item counts grouped by status
+  static async getItemSummary(migrationId: number): Promise<Record<string, number>> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT status, COUNT(*) as count
+       FROM storage_migration_items
+       WHERE migration_id = ?
+       GROUP BY status`,
+      [migrationId]
+    );
+
+    const summary: Record<string, number> = {};
+    for (const row of rows) {
+      summary[row.status] = row.count;
+    }
+    return summary;
+  }
+
+  // Helper: Build wallpaper filter for a migration
+  private static wallpaperFilter(migration: StorageMigration): { where: string; params: any[] } {
+    if (migration.source_provider_id) {
+      return {
+        where: 'w.storage_provider_id = ?',
+        params: [migration.source_provider_id],
+      };
+    }
+
+    return {
+      where: 'w.storage_provider_id != ?',
+      params: [migration.target_provider_id],
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import pool from '../config/database';
+import { StorageProviderConfig } from '../types';
+import { EncryptionUtil } from '../utils/encryption.util';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class StorageProviderModel {
+  // Config keys stored encrypted
+  static readonly SECRET_FIELDS = ['api_secret', 'secret_access_key'];
+
+  // Get all storage providers (those that can't be decrypted are left out, see decryptRows)
+  static async getAll(
+    onUnreadable?: (providerId: number) => void
+  ): Promise<StorageProviderConfig[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_providers ORDER BY priority DESC, id ASC'
+    );
+    return this.decryptRows(rows, onUnreadable);
+  }
+
+  // Get active storage providers ordered by priority (highest first)
+  static async getActive(
+    onUnreadable?: (providerId: number) => void
+  ): Promise<StorageProviderConfig[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_providers WHERE is_active = 1 ORDER BY priority DESC, id ASC'
+    );
+    return this.decryptRows(rows, onUnreadable);
+  }
+
+  // Get storage provider by ID
+  static async findById(id: number): Promise<StorageProviderConfig | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_providers WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? this.decryptRow(rows[0]) : null;
+  }
+
+  // Get the provider every upload is mirrored to, if one is configured
+  static async getMirror(): Promise<StorageProviderConfig | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM storage_providers WHERE is_mirror = 1 LIMIT 1'
+    );
+    return rows.length > 0 ? this.decryptRow(rows[0]) : null;
+  }
+
+  // Make a provider the mirror (there is at most one), or clear it with null
+  static async setMirror(id: number | null): Promise<void> {
+    await pool.query('UPDATE storage_providers SET is_mirror = (id <=> ?)', [id]);
+  }
+
+  // Create new storage provider
+  static async create(providerData: Partial<StorageProviderConfig>): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO storage_providers (provider_name, is_active, priority, config, storage_cost_per_gb, egress_cost_per_gb)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        providerData.provider_name,
+        providerData.is_active || 0,
+        providerData.priority || 0,
+        JSON.stringify(this.encryptConfig(providerData.config || {})),
+        providerData.storage_cost_per_gb || 0,
+        providerData.egress_cost_per_gb || 0,
+      ]
+    );
+    return result.insertId;
+  }
+
+  // Update storage provider
+  static async update(
+    providerId: number,
+    updates: Partial<StorageProviderConfig>
+  ): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.is_active !== undefined) {
+      fields.push('is_active = ?');
+      values.push(updates.is_active);
+    }
+    if (updates.priority !== undefined) {
+      fields.push('priority = ?');
+      values.push(updates.priority);
+    }
+    if (updates.storage_cost_per_gb !== undefined) {
+      fields.push('storage_cost_per_gb = ?');
+      values.push(updates.storage_cost_per_gb);
+    }
+    if (updates.egress_cost_per_gb !== undefined) {
+      fields.push('egress_cost_per_gb = ?');
+      values.push(updates.egress_cost_per_gb);
+    }
+    if (updates.config !== undefined) {
+      fields.push('config = ?');
+      values.push(JSON.stringify(this.encryptConfig(updates.config)));
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(providerId);
+
+    await pool.query(`UPDATE storage_providers SET ${fields.join(', ')} WHERE id = ?`, values);
+  }
+
+  // Delete storage provider
+  static async delete(id: number): Promise<void> {
+    await pool.query('DELETE FROM storage_providers WHERE id = ?', [id]);
+  }
+
+  // Deactivate every provider except one
+  static async deactivateOthers(id: number): Promise<void> {
+    await pool.query('UPDATE storage_providers SET is_active = 0 WHERE id != ?', [id]);
+  }
+
+  // Get highest priority in use
+  static async getMaxPriority(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COALESCE(MAX(priority), 0) as max_priority FROM storage_providers'
+    );
+    return rows[0].max_priority;
+  }
+
+  // Count wallpapers (including soft-deleted) stored on a provider
+  static async countWallpapers(id: number): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers WHERE storage_provider_id = ?',
+      [id]
+    );
+    return rows[0].total;
+  }
+
+  // Count replica files kept on a provider
+  static async countReplicas(id: number): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpaper_replicas WHERE storage_provider_id = ?',
+      [id]
+    );
+    return rows[0].total;
+  }
+
+  // Helper: Encrypt secret config values (already encrypted values are kept)
+  private static encryptConfig(config: object): Record<string, any> {
+    const encrypted: Record<string, any> = { ...config };
+
+    for (const field of this.SECRET_FIELDS) {
+      const value = encrypted[field];
+      if (typeof value === 'string' && value && !EncryptionUtil.isEncrypted(value)) {
+        encrypted[field] = EncryptionUtil.encrypt(value);
+      }
+    }
+
+    return encrypted;
+  }
+
+  // Helper: Decrypt a list of rows, logging and leaving out the ones that fail so one broken
+  // provider doesn't make the whole list unreadable
+  private static decryptRows(
+    rows: RowDataPacket[],
+    onUnreadable?: (providerId: number) => void
+  ): StorageProviderConfig[] {
+    const providers: StorageProviderConfig[] = [];
+
+    for (const row of rows) {
+      try {
+        providers.push(this.decryptRow(row));
+      } catch (error: any) {
+        console.error(`Skipping storage provider ${row.id}:`, error.message);
+        onUnreadable?.(row.id);
+      }
+    }
+
+    return providers;
+  }
+
+  // Helper: Decrypt secret config values of a row
+  private static decryptRow(row: RowDataPacket): StorageProviderConfig {
+    const config: Record<string, any> = { ...(row.config || {}) };
+
+    for (const field of this.SECRET_FIELDS) {
+      if (!EncryptionUtil.isEncrypted(config[field])) continue;
+
+      try {
+        config[field] = EncryptionUtil.decrypt(config[field]);
+      } catch (error: any) {
+        throw new Error(
+          `Cannot decrypt ${field} of storage provider ${row.id} (was STORAGE_ENCRYPTION_KEY changed?): ${error.message}`
+        );
+      }
+    }
+
+    // DECIMAL columns come back as strings
+    return {
+      ...row,
+      config,
+      storage_cost_per_gb: Number(row.storage_cost_per_gb),
+      egress_cost_per_gb: Number(row.egress_cost_per_gb),
+    } as StorageProviderConfig;
+  }
+}
@@ -0,0 +1,63 @@
+import pool from '../config/database';
+import { UploadSession, UploadSessionStatus } from '../types';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export class UploadSessionModel {
+  // Create new upload session
+  static async create(sessionData: Partial<UploadSession>): Promise<number> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO upload_sessions (storage_provider_id, public_id, content_type, max_size, uploaded_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        sessionData.storage_provider_id,
+        sessionData.public_id,
+        sessionData.content_type,
+        sessionData.max_size,
+        sessionData.uploaded_by,
+        sessionData.expires_at,
+      ]
+    );
+    return result.insertId;
+  }
+
+  // Get upload session by ID
+  static async findById(id: number): Promise<UploadSession | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM upload_sessions WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? (rows[0] as UploadSession) : null;
+  }
+
+  // Get upload session by the storage key it uploads to
+  static async findByPublicId(publicId: string): Promise<UploadSession | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM upload_sessions WHERE public_id = ?',
+      [publicId]
+    );
+    return rows.length > 0 ? (rows[0] as UploadSession) : null;
+  }
+
+  // Claim a pending session for finalizing; false if another request got there first
+  static async claim(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'UPDATE upload_sessions SET status = ? WHERE id = ? AND status = ?',
+      [UploadSessionStatus.FINALIZING, id, UploadSessionStatus.PENDING]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // Mark session finalized
+  static async markFinalized(id: number, wallpaperId: number): Promise<void> {
+    await pool.query('UPDATE upload_sessions SET status = ?, wallpaper_id = ? WHERE id = ?', [
+      UploadSessionStatus.FINALIZED,
+      wallpaperId,
+      id,
+    ]);
+  }
+
+  // Update session status
+  static async updateStatus(id: number, status: UploadSessionStatus): Promise<void> {
+    await pool.query('UPDATE upload_sessions SET status = ? WHERE id = ?', [status, id]);
+  }
+}
@@ -0,0 +1,207 @@
+import pool from '../config/database';
+import { BandwidthUsage, CostProjection, StorageUsage } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+const GB = 1024 * 1024 * 1024;
+
+// Storage counts every file with a recorded size, soft-deleted wallpapers included
+// (their files stay on the provider until purged). Bandwidth assumes each recorded
+// download served the whole file of the chosen resolution.
+export class UsageModel {
+  // Get bytes stored per storage provider
+  static async getStorageByProvider(): Promise<StorageUsage[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        sp.id,
+        sp.provider_name as name,
+        COUNT(DISTINCT w.id) as wallpaper_count,
+        COUNT(r.id) as file_count,
+        COALESCE(SUM(r.file_size), 0) as bytes_stored
+      FROM storage_providers sp
+      LEFT JOIN wallpapers w ON w.storage_provider_id = sp.id
+      LEFT JOIN wallpaper_resolutions r ON r.wallpaper_id = w.id
+      GROUP BY sp.id
+      ORDER BY bytes_stored DESC
+    `);
+    return rows.map((row) => this.parseStorageRow(row));
+  }
+
+  // Get bytes stored per category (wallpapers in several categories count in each)
+  static async getStorageByCategory(): Promise<StorageUsage[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        c.id,
+        c.name,
+        COUNT(DISTINCT w.id) as wallpaper_count,
+        COUNT(r.id) as file_count,
+        COALESCE(SUM(r.file_size), 0) as bytes_stored
+      FROM categories c
+      LEFT JOIN wallpaper_categories wc ON wc.category_id = c.id
+      LEFT JOIN wallpapers w ON w.id = wc.wallpaper_id
+      LEFT JOIN wallpaper_resolutions r ON r.wallpaper_id = w.id
+      GROUP BY c.id
+      ORDER BY bytes_stored DESC
+    `);
+    return rows.map((row) => this.parseStorageRow(row));
+  }
+
+  // Get bytes stored per wallpaper, largest first
+  static async getStorageByWallpaper(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ wallpapers: any[]; total: number }> {
+    const offset = (page - 1) * limit;
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT
+        w.id,
+        w.title,
+        w.slug,
+        w.is_active,
+        w.storage_provider_id,
+        COUNT(r.id) as file_count,
+        COALESCE(SUM(r.file_size), 0) as bytes_stored
+      FROM wallpapers w
+      LEFT JOIN wallpaper_resolutions r ON r.wallpaper_id = w.id
+      GROUP BY w.id
+      ORDER BY bytes_stored DESC, w.id ASC
+      LIMIT ? OFFSET ?`,
+      [limit, offset]
+    );
+
+    const [countResult] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers'
+    );
+
+    return {
+      wallpapers: rows.map((row) => ({ ...row, bytes_stored: Number(row.bytes_stored) })),
+      total: countResult[0].total,
+    };
+  }
+
+  // Get bytes served per day with resolution and device breakdowns
+  static async getBandwidthByDay(days: number = 30): Promise<BandwidthUsage[]> {
+    const [byResolution] = await pool.query<RowDataPacket[]>(
+      `SELECT
+        DATE_FORMAT(d.downloaded_at, '%Y-%m-%d') as date,
+        r.resolution_name,
+        COUNT(*) as downloads,
+        COALESCE(SUM(r.file_size), 0) as bytes_served
+      FROM downloads d
+      JOIN wallpaper_resolutions r ON d.resolution_id = r.id
+      WHERE d.downloaded_at >= DATE_SUB(CURDATE(), INTERVAL ? DAY)
+      GROUP BY date, r.resolution_name
+      ORDER BY date ASC, bytes_served DESC`,
+      [days]
+    );
+
+    const [byDevice] = await pool.query<RowDataPacket[]>(
+      `SELECT
+        DATE_FORMAT(d.downloaded_at, '%Y-%m-%d') as date,
+        d.device_type,
+        COUNT(*) as downloads,
+        COALESCE(SUM(r.file_size), 0) as bytes_served
+      FROM downloads d
+      JOIN wallpaper_resolutions r ON d.resolution_id = r.id
+      WHERE d.downloaded_at >= DATE_SUB(CURDATE(), INTERVAL ? DAY)
+      GROUP BY date, d.device_type
+      ORDER BY date ASC, bytes_served DESC`,
+      [days]
+    );
+
+    const usage = new Map<string, BandwidthUsage>();
+    const dayOf = (date: string) => {
+      if (!usage.has(date)) {
+        usage.set(date, { date, downloads: 0, bytes_served: 0, by_resolution: [], by_device: [] });
+      }
+      return usage.get(date)!;
+    };
+
+    for (const row of byResolution) {
+      const day = dayOf(row.date);
+      const downloads = Number(row.downloads);
+      const bytesServed = Number(row.bytes_served);
+
+      day.downloads += downloads;
+      day.bytes_served += bytesServed;
+      day.by_resolution.push({
+        resolution_name: row.resolution_name,
+        downloads,
+        bytes_served: bytesServed,
+      });
+    }
+
+    for (const row of byDevice) {
+      dayOf(row.date).by_device.push({
+        device_type: row.device_type,
+        downloads: Number(row.downloads),
+        bytes_served: Number(row.bytes_served),
+      });
+    }
+
+    return [...usage.values()];
+  }
+
+  // Project monthly cost per provider from current storage and recent egress
+  static async getCostProjection(days: number = 30): Promise<CostProjection[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT
+        sp.id,
+        sp.provider_name,
+        sp.storage_cost_per_gb,
+        sp.egress_cost_per_gb,
+        (SELECT COALESCE(SUM(r.file_size), 0)
+           FROM wallpaper_resolutions r
+           JOIN wallpapers w ON r.wallpaper_id = w.id
+          WHERE w.storage_provider_id = sp.id) as bytes_stored,
+        (SELECT COALESCE(SUM(r.file_size), 0)
+           FROM downloads d
+           JOIN wallpaper_resolutions r ON d.resolution_id = r.id
+           JOIN wallpapers w ON r.wallpaper_id = w.id
+          WHERE w.storage_provider_id = sp.id
+            AND d.downloaded_at >= DATE_SUB(NOW(), INTERVAL ? DAY)) as bytes_served
+      FROM storage_providers sp
+      ORDER BY sp.priority DESC, sp.id ASC`,
+      [days]
+    );
+
+    return rows.map((row) => {
+      const bytesStored = Number(row.bytes_stored);
+      // Scale the observed window to a 30-day month
+      const bytesServedMonthly = Math.round((Number(row.bytes_served) * 30) / days);
+      const storageCostPerGb = Number(row.storage_cost_per_gb);
+      const egressCostPerGb = Number(row.egress_cost_per_gb);
+
+      const storageCost = (bytesStored / GB) * storageCostPerGb;
+      const egressCost = (bytesServedMonthly / GB) * egressCostPerGb;
+
+      return {
+        storage_provider_id: row.id,
+        provider_name: row.provider_name,
+        bytes_stored: bytesStored,
+        bytes_served_monthly: bytesServedMonthly,
+        storage_cost_per_gb: storageCostPerGb,
+        egress_cost_per_gb: egressCostPerGb,
+        storage_cost: this.round(storageCost),
+        egress_cost: this.round(egressCost),
+        total_cost: this.round(storageCost + egressCost),
+      };
+    });
+  }
+
+  // Helper: SUM() over BIGINT comes back as a string
+  private static parseStorageRow(row: RowDataPacket): StorageUsage {
+    return {
+      id: row.id,
+      name: row.name,
+      wallpaper_count: Number(row.wallpaper_count),
+      file_count: Number(row.file_count),
+      bytes_stored: Number(row.bytes_stored),
+    };
+  }
+
+  // Helper: Round a currency amount to cents
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
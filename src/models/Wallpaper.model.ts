@@ -1,6 +1,25 @@
 import pool from '../config/database';
-import { Wallpaper, WallpaperSource, Category } from '../types';
+import { Wallpaper, WallpaperProcessingStatus, WallpaperSource, Category } from '../types';
 import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { WallpaperColorModel } from './WallpaperColor.model';
+import { Lab } from '../utils/color.util';
+
+// Differing bits between the perceptual hash of w and one bound as ? (see hashToColumn)
+const HASH_DISTANCE = 'BIT_COUNT(w.perceptual_hash ^ CAST(? AS UNSIGNED))';
+
+// Perceptual hashes are hex strings in the app and BIGINT UNSIGNED in the table. The column
+// value goes over the wire as a decimal string so none of its 64 bits are lost.
+const hashToColumn = (hash?: string | null): string | null =>
+  hash ? BigInt(`0x${hash}`).toString() : null;
+
+const hashFromColumn = (value: number | string | null): string | undefined =>
+  value === null || value === undefined
+    ? undefined
+    : BigInt(value).toString(16).padStart(16, '0');
+
+// CIE76 ΔE between a palette colour (wcol) and a Lab colour bound as l, a, b
+const COLOR_DISTANCE =
+  'SQRT(POW(wcol.lab_l - ?, 2) + POW(wcol.lab_a - ?, 2) + POW(wcol.lab_b - ?, 2))';
 
 export class WallpaperModel {
   // Create new wallpaper
@@ -8,9 +27,11 @@ export class WallpaperModel {
     const [result] = await pool.query<ResultSetHeader>(
       `INSERT INTO wallpapers (
         title, slug, description, original_url, thumbnail_url, medium_url,
-        primary_color, tags, source, source_id, uploaded_by, storage_provider_id,
-        is_featured, is_active
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        original_public_id, thumbnail_public_id, medium_public_id,
+        primary_color, blurhash, lqip, content_hash, perceptual_hash, skipped_resolutions, tags,
+        source, source_id, uploaded_by, storage_provider_id, is_featured, is_animated,
+        frame_count, animation_duration, is_active, processing_status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         wallpaperData.title,
         wallpaperData.slug,
@@ -18,14 +39,26 @@ export class WallpaperModel {
         wallpaperData.original_url,
         wallpaperData.thumbnail_url,
         wallpaperData.medium_url || null,
+        wallpaperData.original_public_id || null,
+        wallpaperData.thumbnail_public_id || null,
+        wallpaperData.medium_public_id || null,
         wallpaperData.primary_color || null,
+        wallpaperData.blurhash || null,
+        wallpaperData.lqip || null,
+        wallpaperData.content_hash || null,
+        hashToColumn(wallpaperData.perceptual_hash),
+        wallpaperData.skipped_resolutions ? JSON.stringify(wallpaperData.skipped_resolutions) : null,
         wallpaperData.tags ? JSON.stringify(wallpaperData.tags) : null,
         wallpaperData.source || WallpaperSource.ADMIN,
         wallpaperData.source_id || null,
         wallpaperData.uploaded_by,
         wallpaperData.storage_provider_id,
         wallpaperData.is_featured || 0,
+        wallpaperData.is_animated || 0,
+        wallpaperData.frame_count || null,
+        wallpaperData.animation_duration || null,
         wallpaperData.is_active !== undefined ? wallpaperData.is_active : 1,
+        wallpaperData.processing_status || WallpaperProcessingStatus.READY,
       ]
     );
     return result.insertId;
@@ -38,8 +71,10 @@ export class WallpaperModel {
     filters?: {
       categoryId?: number;
       isFeatured?: boolean;
+      isAnimated?: boolean;
       source?: WallpaperSource;
       search?: string;
+      color?: { lab: Lab; tolerance: number };
     }
   ): Promise<{ wallpapers: Wallpaper[]; total: number }> {
     const offset = (page - 1) * limit;
@@ -52,7 +87,7 @@ export class WallpaperModel {
       FROM wallpapers w
       LEFT JOIN wallpaper_categories wc ON w.id = wc.wallpaper_id
       LEFT JOIN categories c ON wc.category_id = c.id
-      WHERE w.is_active = 1
+      WHERE w.is_active = 1 AND w.processing_status = 'ready'
     `;
 
     if (filters?.categoryId) {
@@ -65,6 +100,11 @@ export class WallpaperModel {
       params.push(filters.isFeatured ? 1 : 0);
     }
 
+    if (filters?.isAnimated !== undefined) {
+      query += ' AND w.is_animated = ?';
+      params.push(filters.isAnimated ? 1 : 0);
+    }
+
     if (filters?.source) {
       query += ' AND w.source = ?';
       params.push(filters.source);
@@ -76,7 +116,17 @@ export class WallpaperModel {
       params.push(searchTerm, searchTerm);
     }
 
-    query += ' GROUP BY w.id ORDER BY w.created_at DESC LIMIT ? OFFSET ?';
+    // Colour search: any palette colour within the ΔE tolerance, closest first
+    let order = 'w.created_at DESC';
+    if (filters?.color) {
+      const { lab, tolerance } = filters.color;
+      query += ` AND EXISTS (SELECT 1 FROM wallpaper_colors wcol WHERE wcol.wallpaper_id = w.id AND ${COLOR_DISTANCE} <= ?)`;
+      params.push(lab.l, lab.a, lab.b, tolerance);
+      order = `(SELECT MIN(${COLOR_DISTANCE}) FROM wallpaper_colors wcol WHERE wcol.wallpaper_id = w.id) ASC, ${order}`;
+      params.push(lab.l, lab.a, lab.b);
+    }
+
+    query += ` GROUP BY w.id ORDER BY ${order} LIMIT ? OFFSET ?`;
     params.push(limit, offset);
 
     const [wallpapers] = await pool.query<RowDataPacket[]>(query, params);
@@ -87,10 +137,10 @@ export class WallpaperModel {
 
     if (filters?.categoryId) {
       countQuery +=
-        ' JOIN wallpaper_categories wc ON w.id = wc.wallpaper_id WHERE wc.category_id = ? AND w.is_active = 1';
+        " JOIN wallpaper_categories wc ON w.id = wc.wallpaper_id WHERE wc.category_id = ? AND w.is_active = 1 AND w.processing_status = 'ready'";
       countParams.push(filters.categoryId);
     } else {
-      countQuery += ' WHERE w.is_active = 1';
+      countQuery += " WHERE w.is_active = 1 AND w.processing_status = 'ready'";
     }
 
     if (filters?.isFeatured !== undefined) {
@@ -98,6 +148,11 @@ export class WallpaperModel {
       countParams.push(filters.isFeatured ? 1 : 0);
     }
 
+    if (filters?.isAnimated !== undefined) {
+      countQuery += ' AND w.is_animated = ?';
+      countParams.push(filters.isAnimated ? 1 : 0);
+    }
+
     if (filters?.source) {
       countQuery += ' AND w.source = ?';
       countParams.push(filters.source);
@@ -109,6 +164,12 @@ export class WallpaperModel {
       countParams.push(searchTerm, searchTerm);
     }
 
+    if (filters?.color) {
+      const { lab, tolerance } = filters.color;
+      countQuery += ` AND EXISTS (SELECT 1 FROM wallpaper_colors wcol WHERE wcol.wallpaper_id = w.id AND ${COLOR_DISTANCE} <= ?)`;
+      countParams.push(lab.l, lab.a, lab.b, tolerance);
+    }
+
     const [countResult] = await pool.query<RowDataPacket[]>(
       countQuery,
       countParams
@@ -132,6 +193,7 @@ export class WallpaperModel {
     const wallpaper = this.parseWallpaper(rows[0]);
     wallpaper.categories = await this.getCategories(id);
     wallpaper.resolutions = await this.getResolutions(id);
+    wallpaper.palette = await WallpaperColorModel.getByWallpaperId(id);
 
     return wallpaper;
   }
@@ -148,10 +210,107 @@ export class WallpaperModel {
     const wallpaper = this.parseWallpaper(rows[0]);
     wallpaper.categories = await this.getCategories(wallpaper.id);
     wallpaper.resolutions = await this.getResolutions(wallpaper.id);
+    wallpaper.palette = await WallpaperColorModel.getByWallpaperId(wallpaper.id);
 
     return wallpaper;
   }
 
+  // Get an active wallpaper with the same content hash
+  static async findByContentHash(
+    contentHash: string,
+    excludeId?: number
+  ): Promise<{ id: number; title: string; slug: string } | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, title, slug FROM wallpapers
+       WHERE content_hash = ? AND is_active = 1 AND id != ?
+       ORDER BY id ASC LIMIT 1`,
+      [contentHash, excludeId || 0]
+    );
+    return rows.length > 0 ? (rows[0] as { id: number; title: string; slug: string }) : null;
+  }
+
+  // Get active wallpapers whose perceptual hash is within maxDistance bits, closest first
+  static async findSimilar(
+    perceptualHash: string,
+    maxDistance: number,
+    limit: number = 20,
+    excludeId?: number
+  ): Promise<(Wallpaper & { distance: number })[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.*, ${HASH_DISTANCE} as distance FROM wallpapers w
+       WHERE w.is_active = 1 AND w.processing_status = 'ready'
+         AND w.perceptual_hash IS NOT NULL AND w.id != ?
+         AND ${HASH_DISTANCE} <= ?
+       ORDER BY distance ASC, w.download_count DESC
+       LIMIT ?`,
+      [
+        hashToColumn(perceptualHash),
+        excludeId || 0,
+        hashToColumn(perceptualHash),
+        maxDistance,
+        limit,
+      ]
+    );
+    return this.parseWallpapers(rows) as (Wallpaper & { distance: number })[];
+  }
+
+  // Get wallpapers (including soft-deleted) that have no perceptual hash yet
+  static async getMissingPerceptualHash(afterId: number, limit: number): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM wallpapers
+       WHERE perceptual_hash IS NULL AND id > ?
+       ORDER BY id ASC LIMIT ?`,
+      [afterId, limit]
+    );
+    return rows;
+  }
+
+  // Count wallpapers that have no perceptual hash yet
+  static async countMissingPerceptualHash(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers WHERE perceptual_hash IS NULL'
+    );
+    return rows[0].total;
+  }
+
+  // Get wallpapers (including soft-deleted) that have no content hash yet
+  static async getMissingContentHash(afterId: number, limit: number): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, original_url FROM wallpapers
+       WHERE content_hash IS NULL AND id > ?
+       ORDER BY id ASC LIMIT ?`,
+      [afterId, limit]
+    );
+    return rows;
+  }
+
+  // Count wallpapers that have no content hash yet
+  static async countMissingContentHash(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers WHERE content_hash IS NULL'
+    );
+    return rows[0].total;
+  }
+
+  // Get wallpapers without placeholders, after the given ID
+  static async getMissingPlaceholders(afterId: number, limit: number): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, thumbnail_url, thumbnail_public_id, storage_provider_id FROM wallpapers
+       WHERE (blurhash IS NULL OR lqip IS NULL) AND id > ?
+       ORDER BY id ASC LIMIT ?`,
+      [afterId, limit]
+    );
+    return rows;
+  }
+
+  // Count wallpapers without placeholders
+  static async countMissingPlaceholders(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers WHERE blurhash IS NULL OR lqip IS NULL'
+    );
+    return rows[0].total;
+  }
+
   // Get categories for a wallpaper
   static async getCategories(wallpaperId: number): Promise<Category[]> {
     const [rows] = await pool.query<RowDataPacket[]>(
@@ -225,6 +384,70 @@ export class WallpaperModel {
       fields.push('is_active = ?');
       values.push(updates.is_active);
     }
+    if (updates.original_url) {
+      fields.push('original_url = ?');
+      values.push(updates.original_url);
+    }
+    if (updates.thumbnail_url) {
+      fields.push('thumbnail_url = ?');
+      values.push(updates.thumbnail_url);
+    }
+    if (updates.medium_url !== undefined) {
+      fields.push('medium_url = ?');
+      values.push(updates.medium_url);
+    }
+    if (updates.original_public_id !== undefined) {
+      fields.push('original_public_id = ?');
+      values.push(updates.original_public_id);
+    }
+    if (updates.thumbnail_public_id !== undefined) {
+      fields.push('thumbnail_public_id = ?');
+      values.push(updates.thumbnail_public_id);
+    }
+    if (updates.medium_public_id !== undefined) {
+      fields.push('medium_public_id = ?');
+      values.push(updates.medium_public_id);
+    }
+    if (updates.storage_provider_id) {
+      fields.push('storage_provider_id = ?');
+      values.push(updates.storage_provider_id);
+    }
+    if (updates.primary_color) {
+      fields.push('primary_color = ?');
+      values.push(updates.primary_color);
+    }
+    if (updates.blurhash) {
+      fields.push('blurhash = ?');
+      values.push(updates.blurhash);
+    }
+    if (updates.lqip) {
+      fields.push('lqip = ?');
+      values.push(updates.lqip);
+    }
+    if (updates.processing_status) {
+      fields.push('processing_status = ?');
+      values.push(updates.processing_status);
+    }
+    if (updates.skipped_resolutions) {
+      fields.push('skipped_resolutions = ?');
+      values.push(JSON.stringify(updates.skipped_resolutions));
+    }
+    if (updates.focal_point !== undefined) {
+      fields.push('focal_point = ?');
+      values.push(updates.focal_point ? JSON.stringify(updates.focal_point) : null);
+    }
+    if (updates.crop_revision !== undefined) {
+      fields.push('crop_revision = ?');
+      values.push(updates.crop_revision);
+    }
+    if (updates.perceptual_hash !== undefined) {
+      fields.push('perceptual_hash = ?');
+      values.push(hashToColumn(updates.perceptual_hash));
+    }
+    if (updates.content_hash !== undefined) {
+      fields.push('content_hash = ?');
+      values.push(updates.content_hash);
+    }
 
     if (fields.length === 0) return;
 
@@ -242,6 +465,65 @@ export class WallpaperModel {
     ]);
   }
 
+  // Get soft-deleted wallpapers
+  static async getDeleted(olderThanDays: number = 0): Promise<Wallpaper[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.* FROM wallpapers w
+       WHERE w.is_active = 0 AND w.updated_at <= DATE_SUB(NOW(), INTERVAL ? DAY)
+       ORDER BY w.id ASC`,
+      [olderThanDays]
+    );
+    return this.parseWallpapers(rows);
+  }
+
+  // Get soft-deleted wallpaper by ID
+  static async findDeletedById(id: number): Promise<Wallpaper | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.* FROM wallpapers w WHERE w.id = ? AND w.is_active = 0`,
+      [id]
+    );
+
+    if (rows.length === 0) return null;
+
+    const wallpaper = this.parseWallpaper(rows[0]);
+    wallpaper.resolutions = await this.getResolutions(id);
+
+    return wallpaper;
+  }
+
+  // Permanently delete wallpaper (resolutions, formats, categories, favorites and downloads cascade)
+  static async hardDelete(wallpaperId: number): Promise<void> {
+    await pool.query('DELETE FROM wallpapers WHERE id = ?', [wallpaperId]);
+  }
+
+  // Get every stored object (URL + public ID) referenced on a storage provider
+  static async getStorageReferences(
+    storageProviderId: number
+  ): Promise<{ url: string; public_id: string | null }[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT original_url as url, original_public_id as public_id
+       FROM wallpapers WHERE storage_provider_id = ?
+       UNION ALL
+       SELECT thumbnail_url, thumbnail_public_id
+       FROM wallpapers WHERE storage_provider_id = ?
+       UNION ALL
+       SELECT medium_url, medium_public_id
+       FROM wallpapers WHERE storage_provider_id = ? AND medium_url IS NOT NULL
+       UNION ALL
+       SELECT wr.url, wr.public_id
+       FROM wallpaper_resolutions wr
+       JOIN wallpapers w ON wr.wallpaper_id = w.id
+       WHERE w.storage_provider_id = ?
+       UNION ALL
+       SELECT wf.url, wf.public_id
+       FROM wallpaper_formats wf
+       JOIN wallpapers w ON wf.wallpaper_id = w.id
+       WHERE w.storage_provider_id = ?`,
+      [storageProviderId, storageProviderId, storageProviderId, storageProviderId, storageProviderId]
+    );
+    return rows as { url: string; public_id: string | null }[];
+  }
+
   // Increment view count
   static async incrementViewCount(wallpaperId: number): Promise<void> {
     await pool.query(
@@ -262,7 +544,7 @@ export class WallpaperModel {
   static async getFeatured(limit: number = 10): Promise<Wallpaper[]> {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT w.* FROM wallpapers w
-       WHERE w.is_featured = 1 AND w.is_active = 1
+       WHERE w.is_featured = 1 AND w.is_active = 1 AND w.processing_status = 'ready'
        ORDER BY w.created_at DESC
        LIMIT ?`,
       [limit]
@@ -277,7 +559,7 @@ export class WallpaperModel {
        FROM wallpapers w
        LEFT JOIN downloads d ON w.id = d.wallpaper_id
          AND d.downloaded_at >= DATE_SUB(NOW(), INTERVAL 7 DAY)
-       WHERE w.is_active = 1
+       WHERE w.is_active = 1 AND w.processing_status = 'ready'
        GROUP BY w.id
        ORDER BY recent_downloads DESC, w.download_count DESC
        LIMIT ?`,
@@ -297,7 +579,7 @@ export class WallpaperModel {
 
     const [wallpapers] = await pool.query<RowDataPacket[]>(
       `SELECT w.* FROM wallpapers w
-       WHERE w.is_active = 1
+       WHERE w.is_active = 1 AND w.processing_status = 'ready'
          AND (w.title LIKE ? OR w.description LIKE ? OR w.tags LIKE ?)
        ORDER BY w.download_count DESC
        LIMIT ? OFFSET ?`,
@@ -306,7 +588,7 @@ export class WallpaperModel {
 
     const [countResult] = await pool.query<RowDataPacket[]>(
       `SELECT COUNT(*) as total FROM wallpapers w
-       WHERE w.is_active = 1
+       WHERE w.is_active = 1 AND w.processing_status = 'ready'
          AND (w.title LIKE ? OR w.description LIKE ? OR w.tags LIKE ?)`,
       [searchTerm, searchTerm, searchTerm]
     );
@@ -344,6 +626,7 @@ export class WallpaperModel {
     }
     return {
       ...row,
+      perceptual_hash: hashFromColumn(row.perceptual_hash),
       tags,
     };
   }
@@ -0,0 +1,64 @@
+import pool from '../config/database';
+import { PaletteColor } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+export class WallpaperColorModel {
+  // Replace the palette of a wallpaper
+  static async replace(wallpaperId: number, palette: PaletteColor[]): Promise<void> {
+    await pool.query('DELETE FROM wallpaper_colors WHERE wallpaper_id = ?', [wallpaperId]);
+    if (palette.length === 0) return;
+
+    const values = palette.map((color, position) => [
+      wallpaperId,
+      position,
+      color.hex,
+      color.proportion,
+      color.lab.l,
+      color.lab.a,
+      color.lab.b,
+    ]);
+
+    await pool.query(
+      `INSERT INTO wallpaper_colors (
+        wallpaper_id, position, hex, proportion, lab_l, lab_a, lab_b
+      ) VALUES ?`,
+      [values]
+    );
+  }
+
+  // Get the palette of a wallpaper, most dominant first
+  static async getByWallpaperId(wallpaperId: number): Promise<PaletteColor[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_colors WHERE wallpaper_id = ? ORDER BY position ASC',
+      [wallpaperId]
+    );
+
+    return rows.map((row) => ({
+      hex: row.hex,
+      proportion: row.proportion,
+      lab: { l: row.lab_l, a: row.lab_a, b: row.lab_b },
+    }));
+  }
+
+  // Get wallpapers without a palette, after the given ID
+  static async getMissing(afterId: number, limit: number): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.* FROM wallpapers w
+       WHERE w.id > ? AND NOT EXISTS (
+         SELECT 1 FROM wallpaper_colors wcol WHERE wcol.wallpaper_id = w.id
+       )
+       ORDER BY w.id ASC LIMIT ?`,
+      [afterId, limit]
+    );
+    return rows;
+  }
+
+  // Count wallpapers without a palette
+  static async countMissing(): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM wallpapers w
+       WHERE NOT EXISTS (SELECT 1 FROM wallpaper_colors wcol WHERE wcol.wallpaper_id = w.id)`
+    );
+    return rows[0].total;
+  }
+}
@@ -0,0 +1,82 @@
+import pool from '../config/database';
+import { WallpaperFormat } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+export class WallpaperFormatModel {
+  // Bulk create format variants
+  static async bulkCreate(formats: Partial<WallpaperFormat>[]): Promise<void> {
+    if (formats.length === 0) return;
+
+    const values = formats.map((f) => [
+      f.wallpaper_id,
+      f.resolution_id || null,
+      f.asset,
+      f.format,
+      f.file_size || null,
+      f.url,
+      f.public_id || null,
+    ]);
+
+    await pool.query(
+      `INSERT INTO wallpaper_formats (
+        wallpaper_id, resolution_id, asset, format, file_size, url, public_id
+      ) VALUES ?`,
+      [values]
+    );
+  }
+
+  // Get all format variants of a wallpaper
+  static async getByWallpaperId(wallpaperId: number): Promise<WallpaperFormat[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_formats WHERE wallpaper_id = ? ORDER BY id ASC',
+      [wallpaperId]
+    );
+    return rows as WallpaperFormat[];
+  }
+
+  // Get format variants of one resolution
+  static async getByResolutionId(resolutionId: number): Promise<WallpaperFormat[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_formats WHERE resolution_id = ? ORDER BY id ASC',
+      [resolutionId]
+    );
+    return rows as WallpaperFormat[];
+  }
+
+  // Get format variants of a wallpaper's thumbnail or medium image
+  static async getByAsset(
+    wallpaperId: number,
+    asset: 'thumbnail' | 'medium'
+  ): Promise<WallpaperFormat[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_formats WHERE wallpaper_id = ? AND asset = ? ORDER BY id ASC',
+      [wallpaperId, asset]
+    );
+    return rows as WallpaperFormat[];
+  }
+
+  // Update variant URL
+  static async updateUrl(id: number, url: string, publicId?: string): Promise<void> {
+    await pool.query('UPDATE wallpaper_formats SET url = ?, public_id = ? WHERE id = ?', [
+      url,
+      publicId || null,
+      id,
+    ]);
+  }
+
+  // Point a variant at a regenerated file
+  static async updateFile(
+    id: number,
+    file: { url: string; public_id?: string; file_size: number }
+  ): Promise<void> {
+    await pool.query(
+      'UPDATE wallpaper_formats SET url = ?, public_id = ?, file_size = ? WHERE id = ?',
+      [file.url, file.public_id || null, file.file_size, id]
+    );
+  }
+
+  // Delete all format variants of a wallpaper
+  static async deleteByWallpaperId(wallpaperId: number): Promise<void> {
+    await pool.query('DELETE FROM wallpaper_formats WHERE wallpaper_id = ?', [wallpaperId]);
+  }
+}
@@ -0,0 +1,32 @@
+import pool from '../config/database';
+import { RemovedMetadata, WallpaperMetadata } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+export class WallpaperMetadataModel {
+  // Record what the metadata policy removed from a wallpaper's original
+  static async create(wallpaperId: number, removed: RemovedMetadata): Promise<void> {
+    await pool.query(
+      `INSERT INTO wallpaper_metadata (wallpaper_id, orientation, has_location, exif, xmp, iptc)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        wallpaperId,
+        removed.orientation,
+        removed.has_location,
+        removed.exif ? JSON.stringify(removed.exif) : null,
+        removed.xmp,
+        removed.iptc,
+      ]
+    );
+  }
+
+  // Get removed metadata of a wallpaper
+  static async findByWallpaperId(wallpaperId: number): Promise<WallpaperMetadata | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_metadata WHERE wallpaper_id = ?',
+      [wallpaperId]
+    );
+    if (rows.length === 0) return null;
+
+    return { ...rows[0], has_location: !!rows[0].has_location } as WallpaperMetadata;
+  }
+}
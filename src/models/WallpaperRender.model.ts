@@ -0,0 +1,83 @@
+import pool from '../config/database';
+import { WallpaperRender } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+export class WallpaperRenderModel {
+  // Record a render, replacing an earlier one with the same parameters
+  static async save(render: Partial<WallpaperRender>): Promise<void> {
+    await pool.query(
+      `INSERT INTO wallpaper_renders (
+        wallpaper_id, cache_key, width, height, fit, format, file_size,
+        storage_provider_id, url, public_id, last_accessed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())
+      ON DUPLICATE KEY UPDATE
+        width = VALUES(width), height = VALUES(height), file_size = VALUES(file_size),
+        storage_provider_id = VALUES(storage_provider_id), url = VALUES(url),
+        public_id = VALUES(public_id)`,
+      [
+        render.wallpaper_id,
+        render.cache_key,
+        render.width,
+        render.height,
+        render.fit,
+        render.format,
+        render.file_size || null,
+        render.storage_provider_id,
+        render.url,
+        render.public_id || null,
+      ]
+    );
+  }
+
+  // Get a cached render by its parameters
+  static async find(wallpaperId: number, cacheKey: string): Promise<WallpaperRender | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_renders WHERE wallpaper_id = ? AND cache_key = ?',
+      [wallpaperId, cacheKey]
+    );
+    return rows.length > 0 ? (rows[0] as WallpaperRender) : null;
+  }
+
+  // Get all cached renders of a wallpaper
+  static async getByWallpaperId(wallpaperId: number): Promise<WallpaperRender[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_renders WHERE wallpaper_id = ? ORDER BY id ASC',
+      [wallpaperId]
+    );
+    return rows as WallpaperRender[];
+  }
+
+  // Count cached renders of a wallpaper
+  static async countByWallpaperId(wallpaperId: number): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpaper_renders WHERE wallpaper_id = ?',
+      [wallpaperId]
+    );
+    return rows[0].total;
+  }
+
+  // Count a cache hit
+  static async recordHit(id: number): Promise<void> {
+    await pool.query(
+      'UPDATE wallpaper_renders SET hit_count = hit_count + 1, last_accessed_at = NOW() WHERE id = ?',
+      [id]
+    );
+  }
+
+  // Delete cached renders
+  static async deleteByIds(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await pool.query('DELETE FROM wallpaper_renders WHERE id IN (?)', [ids]);
+  }
+
+  // Get references to renders kept on a provider
+  static async getStorageReferences(
+    storageProviderId: number
+  ): Promise<{ url: string; public_id: string | null }[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT url, public_id FROM wallpaper_renders WHERE storage_provider_id = ?',
+      [storageProviderId]
+    );
+    return rows as { url: string; public_id: string | null }[];
+  }
+}
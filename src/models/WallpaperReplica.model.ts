@@ -0,0 +1,102 @@
+import pool from '../config/database';
+import { WallpaperReplica } from '../types';
+import { RowDataPacket } from 'mysql2';
+
+export class WallpaperReplicaModel {
+  // Record a replica, replacing an earlier copy of the same asset on that provider
+  static async save(replica: Partial<WallpaperReplica>): Promise<void> {
+    await pool.query(
+      `INSERT INTO wallpaper_replicas (
+        wallpaper_id, resolution_id, asset, storage_provider_id, url, public_id
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE url = VALUES(url), public_id = VALUES(public_id)`,
+      [
+        replica.wallpaper_id,
+        replica.resolution_id || null,
+        replica.asset,
+        replica.storage_provider_id,
+        replica.url,
+        replica.public_id || null,
+      ]
+    );
+  }
+
+  // Get replicas of a wallpaper, optionally only those on one provider
+  static async getByWallpaperId(
+    wallpaperId: number,
+    storageProviderId?: number
+  ): Promise<WallpaperReplica[]> {
+    const params: any[] = [wallpaperId];
+    let where = 'wallpaper_id = ?';
+
+    if (storageProviderId) {
+      where += ' AND storage_provider_id = ?';
+      params.push(storageProviderId);
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM wallpaper_replicas WHERE ${where} ORDER BY id ASC`,
+      params
+    );
+    return rows as WallpaperReplica[];
+  }
+
+  // Get replicas of several wallpapers at once
+  static async getByWallpaperIds(wallpaperIds: number[]): Promise<WallpaperReplica[]> {
+    if (wallpaperIds.length === 0) return [];
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_replicas WHERE wallpaper_id IN (?) ORDER BY id ASC',
+      [wallpaperIds]
+    );
+    return rows as WallpaperReplica[];
+  }
+
+  // Get the replica of one resolution file
+  static async findByResolutionId(resolutionId: number): Promise<WallpaperReplica | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM wallpaper_replicas WHERE resolution_id = ? ORDER BY id ASC LIMIT 1',
+      [resolutionId]
+    );
+    return rows.length > 0 ? (rows[0] as WallpaperReplica) : null;
+  }
+
+  // Get references to replica files kept on a provider
+  static async getStorageReferences(
+    storageProviderId: number
+  ): Promise<{ url: string; public_id: string | null }[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT url, public_id FROM wallpaper_replicas WHERE storage_provider_id = ?',
+      [storageProviderId]
+    );
+    return rows as { url: string; public_id: string | null }[];
+  }
+
+  // Count wallpapers (including soft-deleted) a reconciliation has to walk
+  static async countWallpapers(excludeProviderId: number): Promise<number> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) as total FROM wallpapers WHERE storage_provider_id != ?',
+      [excludeProviderId]
+    );
+    return rows[0].total;
+  }
+
+  // Get the next batch of wallpapers stored elsewhere than the mirror
+  static async getNextWallpapers(
+    afterId: number,
+    excludeProviderId: number,
+    limit: number = 20
+  ): Promise<RowDataPacket[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, slug, original_url, thumbnail_url, medium_url,
+        original_public_id, thumbnail_public_id, medium_public_id, storage_provider_id,
+        crop_revision
+       FROM wallpapers
+       WHERE id > ? AND storage_provider_id != ?
+       ORDER BY id ASC
+       LIMIT ?`,
+      [afterId, excludeProviderId, limit]
+    );
+    return rows;
+  }
+}
@@ -7,8 +7,8 @@ export class WallpaperResolutionModel {
   static async create(resolutionData: Partial<WallpaperResolution>): Promise<number> {
     const [result] = await pool.query<ResultSetHeader>(
       `INSERT INTO wallpaper_resolutions (
-        wallpaper_id, width, height, resolution_name, file_size, url, is_original
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        wallpaper_id, width, height, resolution_name, file_size, url, public_id, is_original
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         resolutionData.wallpaper_id,
         resolutionData.width,
@@ -16,6 +16,7 @@ export class WallpaperResolutionModel {
         resolutionData.resolution_name,
         resolutionData.file_size || null,
         resolutionData.url,
+        resolutionData.public_id || null,
         resolutionData.is_original || 0,
       ]
     );
@@ -40,6 +41,32 @@ export class WallpaperResolutionModel {
     return rows.length > 0 ? (rows[0] as WallpaperResolution) : null;
   }
 
+  // Update resolution URL
+  static async updateUrl(id: number, url: string, publicId?: string): Promise<void> {
+    await pool.query(
+      'UPDATE wallpaper_resolutions SET url = ?, public_id = ? WHERE id = ?',
+      [url, publicId || null, id]
+    );
+  }
+
+  // Point a resolution at a regenerated file
+  static async updateFile(
+    id: number,
+    file: { url: string; public_id?: string; file_size: number }
+  ): Promise<void> {
+    await pool.query(
+      'UPDATE wallpaper_resolutions SET url = ?, public_id = ?, file_size = ? WHERE id = ?',
+      [file.url, file.public_id || null, file.file_size, id]
+    );
+  }
+
+  // Delete the generated resolutions of a wallpaper, keeping the original
+  static async deleteDerived(wallpaperId: number): Promise<void> {
+    await pool.query('DELETE FROM wallpaper_resolutions WHERE wallpaper_id = ? AND is_original = 0', [
+      wallpaperId,
+    ]);
+  }
+
   // Delete all resolutions for a wallpaper
   static async deleteByWallpaperId(wallpaperId: number): Promise<void> {
     await pool.query('DELETE FROM wallpaper_resolutions WHERE wallpaper_id = ?', [
@@ -78,12 +105,13 @@ export class WallpaperResolutionModel {
       r.resolution_name,
       r.file_size || null,
       r.url,
+      r.public_id || null,
       r.is_original || 0,
     ]);
 
     await pool.query(
       `INSERT INTO wallpaper_resolutions (
-        wallpaper_id, width, height, resolution_name, file_size, url, is_original
+        wallpaper_id, width, height, resolution_name, file_size, url, public_id, is_original
       ) VALUES ?`,
       [values]
     );
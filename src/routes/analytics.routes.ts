@@ -18,6 +18,10 @@ router.get('/devices', authAdmin, asyncHandler(AnalyticsController.getDeviceStat
 router.get('/resolutions', authAdmin, asyncHandler(AnalyticsController.getResolutionStats));
 router.get('/reports/monthly', authAdmin, asyncHandler(AnalyticsController.getMonthlyReport));
 router.get('/reports/yearly', authAdmin, asyncHandler(AnalyticsController.getYearlyReport));
+router.get('/storage', authAdmin, asyncHandler(AnalyticsController.getStorageUsage));
+router.get('/storage/wallpapers', authAdmin, asyncHandler(AnalyticsController.getWallpaperStorage));
+router.get('/bandwidth', authAdmin, asyncHandler(AnalyticsController.getBandwidthUsage));
+router.get('/costs', authAdmin, asyncHandler(AnalyticsController.getCostProjection));
 
 // Aliases for frontend compatibility
 router.get('/overall', authAdmin, asyncHandler(AnalyticsController.getOverview));
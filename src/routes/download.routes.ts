@@ -8,6 +8,9 @@ const router = Router();
 // Download wallpaper file (optional auth for guests)
 router.get('/file', optionalAuth, asyncHandler(DownloadController.downloadWallpaper));
 
+// Download a multi-monitor span as a ZIP of per-monitor slices (optional auth for guests)
+router.get('/span', optionalAuth, asyncHandler(DownloadController.downloadSpan));
+
 // Track download (optional auth for guests)
 router.post('/', optionalAuth, asyncHandler(DownloadController.trackDownload));
 
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { IntegrityScanController } from '../controllers/integrityScan.controller';
+import { authAdmin } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// All integrity scan routes require admin access
+router.post('/', authAdmin, asyncHandler(IntegrityScanController.create));
+router.get('/', authAdmin, asyncHandler(IntegrityScanController.getAll));
+router.post(
+  '/issues/:issueId/repair',
+  authAdmin,
+  asyncHandler(IntegrityScanController.repairIssue)
+);
+router.get('/:id', authAdmin, asyncHandler(IntegrityScanController.getById));
+router.get('/:id/report', authAdmin, asyncHandler(IntegrityScanController.getReport));
+router.post('/:id/cancel', authAdmin, asyncHandler(IntegrityScanController.cancel));
+router.post('/:id/repair', authAdmin, asyncHandler(IntegrityScanController.repairAll));
+
+export default router;
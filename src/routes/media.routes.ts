@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { MediaController } from '../controllers/media.controller';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// Public routes (files written by the local storage provider)
+router.get('/*key', asyncHandler(MediaController.serve));
+
+// Direct uploads, authorized by the signature in the URL
+router.put('/*key', asyncHandler(MediaController.receive));
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ResolutionPresetController } from '../controllers/resolutionPreset.controller';
+import { authAdmin } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// All resolution preset routes require admin access
+router.get('/', authAdmin, asyncHandler(ResolutionPresetController.getAll));
+router.post('/', authAdmin, asyncHandler(ResolutionPresetController.create));
+router.get('/:id', authAdmin, asyncHandler(ResolutionPresetController.getById));
+router.put('/:id', authAdmin, asyncHandler(ResolutionPresetController.update));
+router.delete('/:id', authAdmin, asyncHandler(ResolutionPresetController.delete));
+
+export default router;
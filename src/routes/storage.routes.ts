@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { StorageController } from '../controllers/storage.controller';
+import { authAdmin } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// All storage maintenance routes require admin access
+router.post('/purge', authAdmin, asyncHandler(StorageController.purge));
+router.post('/sweep', authAdmin, asyncHandler(StorageController.sweep));
+router.get('/replicas/reconcile', authAdmin, asyncHandler(StorageController.getReconciliation));
+router.post('/replicas/reconcile', authAdmin, asyncHandler(StorageController.reconcileReplicas));
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { StorageMigrationController } from '../controllers/storageMigration.controller';
+import { authAdmin } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// All storage migration routes require admin access
+router.post('/', authAdmin, asyncHandler(StorageMigrationController.create));
+router.get('/', authAdmin, asyncHandler(StorageMigrationController.getAll));
+router.get('/:id', authAdmin, asyncHandler(StorageMigrationController.getById));
+router.get('/:id/report', authAdmin, asyncHandler(StorageMigrationController.getReport));
+router.post('/:id/resume', authAdmin, asyncHandler(StorageMigrationController.resume));
+router.post('/:id/cancel', authAdmin, asyncHandler(StorageMigrationController.cancel));
+
+export default router;
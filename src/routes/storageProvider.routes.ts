@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { StorageProviderController } from '../controllers/storageProvider.controller';
+import { authOwner } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const router = Router();
+
+// All storage provider routes require owner access (they hold credentials)
+router.get('/', authOwner, asyncHandler(StorageProviderController.getAll));
+router.post('/', authOwner, asyncHandler(StorageProviderController.create));
+router.get('/:id', authOwner, asyncHandler(StorageProviderController.getById));
+router.put('/:id', authOwner, asyncHandler(StorageProviderController.update));
+router.delete('/:id', authOwner, asyncHandler(StorageProviderController.delete));
+router.post('/:id/test', authOwner, asyncHandler(StorageProviderController.testConnection));
+router.post('/:id/activate', authOwner, asyncHandler(StorageProviderController.activate));
+router.post('/:id/deactivate', authOwner, asyncHandler(StorageProviderController.deactivate));
+router.post('/:id/mirror', authOwner, asyncHandler(StorageProviderController.setMirror));
+router.delete('/:id/mirror', authOwner, asyncHandler(StorageProviderController.unsetMirror));
+
+export default router;
@@ -1,7 +1,11 @@
 import { Router } from 'express';
 import { WallpaperController } from '../controllers/wallpaper.controller';
 import { authAdmin, optionalAuth } from '../middleware/auth.middleware';
-import { validateWallpaper, validatePagination } from '../middleware/validation.middleware';
+import {
+  validateWallpaper,
+  validatePagination,
+  validateFocalPoint,
+} from '../middleware/validation.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
 
 const router = Router();
@@ -12,7 +16,15 @@ router.get('/featured', asyncHandler(WallpaperController.getFeatured));
 router.get('/trending', asyncHandler(WallpaperController.getTrending));
 router.get('/search', validatePagination, asyncHandler(WallpaperController.search));
 router.get('/:id/resolutions', asyncHandler(WallpaperController.getResolutions));
+router.get('/:id/thumbnail', asyncHandler(WallpaperController.getPreview));
+router.get('/:id/render', asyncHandler(WallpaperController.render));
+router.get('/:id/similar', asyncHandler(WallpaperController.getSimilar));
 router.get('/:slug', optionalAuth, asyncHandler(WallpaperController.getBySlug));
+router.post(
+  '/search-by-image',
+  WallpaperController.upload,
+  asyncHandler(WallpaperController.searchByImage)
+);
 
 // Admin routes
 router.post(
@@ -22,7 +34,22 @@ router.post(
   validateWallpaper,
   asyncHandler(WallpaperController.create)
 );
-router.put('/:id', authAdmin, asyncHandler(WallpaperController.update));
+// Direct-to-storage uploads: get an upload URL, then finalize
+router.post('/uploads', authAdmin, asyncHandler(WallpaperController.createUploadSession));
+router.post(
+  '/uploads/:id/finalize',
+  authAdmin,
+  validateWallpaper,
+  asyncHandler(WallpaperController.finalizeUpload)
+);
+router.post('/backfill/:kind', authAdmin, asyncHandler(WallpaperController.backfill));
+router.get('/:id/metadata', authAdmin, asyncHandler(WallpaperController.getMetadata));
+router.get(
+  '/:id/processing-status',
+  authAdmin,
+  asyncHandler(WallpaperController.getProcessingStatus)
+);
+router.put('/:id', authAdmin, validateFocalPoint, asyncHandler(WallpaperController.update));
 router.delete('/:id', authAdmin, asyncHandler(WallpaperController.delete));
 
 export default router;
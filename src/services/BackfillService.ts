@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { WallpaperModel } from '../models/Wallpaper.model';
+import { WallpaperColorModel } from '../models/WallpaperColor.model';
+import { ReplicaService } from './storage/ReplicaService';
+import { StorageFactory } from './storage/StorageFactory';
+import { IStorageService } from './storage/IStorageService';
+import { ImageProcessingService } from './ImageProcessingService';
+import { Wallpaper } from '../types';
+
+export interface BackfillResult {
+  processed: number;
+  updated: number;
+  failed: { wallpaper_id: number; error: string }[];
+  last_id: number;
+  remaining: number;
+}
+
+export interface ContentHashBackfillResult extends BackfillResult {
+  duplicates: { wallpaper_id: number; duplicate_of: number }[];
+}
+
+export class BackfillService {
+  // Hash originals of existing wallpapers, one batch per call.
+  // Failed rows are skipped via `afterId` so they don't block the next batch.
+  static async contentHashes(
+    afterId: number = 0,
+    limit: number = 50
+  ): Promise<ContentHashBackfillResult> {
+    const wallpapers = await WallpaperModel.getMissingContentHash(afterId, limit);
+
+    const result: ContentHashBackfillResult = {
+      processed: 0,
+      updated: 0,
+      duplicates: [],
+      failed: [],
+      last_id: afterId,
+      remaining: 0,
+    };
+
+    for (const wallpaper of wallpapers) {
+      result.processed++;
+      result.last_id = wallpaper.id;
+
+      try {
+        const response = await axios.get(wallpaper.original_url, { responseType: 'arraybuffer' });
+        const contentHash = await ImageProcessingService.computeContentHash(
+          Buffer.from(response.data)
+        );
+
+        // Existing duplicates are reported, not removed
+        const duplicate = await WallpaperModel.findByContentHash(contentHash, wallpaper.id);
+        if (duplicate) {
+          result.duplicates.push({ wallpaper_id: wallpaper.id, duplicate_of: duplicate.id });
+        }
+
+        await WallpaperModel.update(wallpaper.id, { content_hash: contentHash });
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({
+          wallpaper_id: wallpaper.id,
+          error: error.message || 'Failed to hash original',
+        });
+      }
+    }
+
+    result.remaining = await WallpaperModel.countMissingContentHash();
+    return result;
+  }
+
+  // Extract palettes of existing wallpapers, one batch per call.
+  // Also replaces the old averaged primary_color with the dominant colour.
+  static async palettes(afterId: number = 0, limit: number = 50): Promise<BackfillResult> {
+    const wallpapers = await WallpaperColorModel.getMissing(afterId, limit);
+
+    const result: BackfillResult = {
+      processed: 0,
+      updated: 0,
+      failed: [],
+      last_id: afterId,
+      remaining: 0,
+    };
+
+    for (const wallpaper of wallpapers) {
+      result.processed++;
+      result.last_id = wallpaper.id;
+
+      try {
+        const original = await ReplicaService.downloadOriginal(wallpaper as Wallpaper);
+        const palette = await ImageProcessingService.extractPalette(original);
+        if (palette.length === 0) {
+          throw new Error('No colours found');
+        }
+
+        await WallpaperColorModel.replace(wallpaper.id, palette);
+        await WallpaperModel.update(wallpaper.id, { primary_color: palette[0].hex });
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({
+          wallpaper_id: wallpaper.id,
+          error: error.message || 'Failed to extract palette',
+        });
+      }
+    }
+
+    result.remaining = await WallpaperColorModel.countMissing();
+    return result;
+  }
+
+  // Generate BlurHash/LQIP placeholders of existing wallpapers from their thumbnails
+  static async placeholders(
+    afterId: number = 0,
+    limit: number = 50
+  ): Promise<BackfillResult> {
+    const wallpapers = await WallpaperModel.getMissingPlaceholders(afterId, limit);
+
+    const result: BackfillResult = {
+      processed: 0,
+      updated: 0,
+      failed: [],
+      last_id: afterId,
+      remaining: 0,
+    };
+
+    // One service per storage provider for the whole batch
+    const services = new Map<number, IStorageService>();
+
+    for (const wallpaper of wallpapers) {
+      result.processed++;
+      result.last_id = wallpaper.id;
+
+      try {
+        if (!services.has(wallpaper.storage_provider_id)) {
+          services.set(
+            wallpaper.storage_provider_id,
+            await StorageFactory.getServiceById(wallpaper.storage_provider_id)
+          );
+        }
+        const storage = services.get(wallpaper.storage_provider_id)!;
+
+        const publicId =
+          wallpaper.thumbnail_public_id || storage.getPublicId(wallpaper.thumbnail_url);
+        if (!publicId) {
+          throw new Error('Thumbnail URL does not belong to the storage provider');
+        }
+
+        const thumbnail = await storage.download(publicId);
+        await WallpaperModel.update(
+          wallpaper.id,
+          await ImageProcessingService.generatePlaceholders(thumbnail)
+        );
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({
+          wallpaper_id: wallpaper.id,
+          error: error.message || 'Failed to generate placeholders',
+        });
+      }
+    }
+
+    result.remaining = await WallpaperModel.countMissingPlaceholders();
+    return result;
+  }
+
+  // Compute perceptual hashes of existing wallpapers for similarity search
+  static async perceptualHashes(
+    afterId: number = 0,
+    limit: number = 50
+  ): Promise<BackfillResult> {
+    const wallpapers = await WallpaperModel.getMissingPerceptualHash(afterId, limit);
+
+    const result: BackfillResult = {
+      processed: 0,
+      updated: 0,
+      failed: [],
+      last_id: afterId,
+      remaining: 0,
+    };
+
+    for (const wallpaper of wallpapers) {
+      result.processed++;
+      result.last_id = wallpaper.id;
+
+      try {
+        const original = await ReplicaService.downloadOriginal(wallpaper as Wallpaper);
+        await WallpaperModel.update(wallpaper.id, {
+          perceptual_hash: await ImageProcessingService.computePerceptualHash(original),
+        });
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({
+          wallpaper_id: wallpaper.id,
+          error: error.message || 'Failed to hash original',
+        });
+      }
+    }
+
+    result.remaining = await WallpaperModel.countMissingPerceptualHash();
+    return result;
+  }
+}
@@ -0,0 +1,239 @@
+import { WallpaperModel } from '../models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../models/WallpaperResolution.model';
+import { WallpaperFormatModel } from '../models/WallpaperFormat.model';
+import { WallpaperRenderModel } from '../models/WallpaperRender.model';
+import { WallpaperReplicaModel } from '../models/WallpaperReplica.model';
+import { StorageFactory } from './storage/StorageFactory';
+import { UploadResult } from './storage/IStorageService';
+import { ReplicaFile, ReplicaService } from './storage/ReplicaService';
+import { StorageCleanupService, StoredFile } from './storage/StorageCleanupService';
+import { ImageProcessingService, ProcessedImage } from './ImageProcessingService';
+import { ResolutionPresetService } from './ResolutionPresetService';
+import { SlugUtil } from '../utils/slug.util';
+import { CropRegeneration, Wallpaper, WallpaperFormat } from '../types';
+
+interface CropTarget {
+  name: string;
+  asset: WallpaperFormat['asset'];
+  resolution_id?: number;
+  folder: string;
+  filename: string;
+  previous: StoredFile; // file the new crop replaces
+  generate: () => Promise<ProcessedImage>;
+  save: (upload: UploadResult, processed: ProcessedImage) => Promise<void>;
+}
+
+export class CropRegenerationService {
+  // Re-crop every derived file of a wallpaper around its current focal point.
+  // Crops are stored under the next revision's keys; the files they replace are deleted.
+  static async regenerate(
+    wallpaper: Wallpaper,
+    onProgress?: (completed: number, total: number) => Promise<void>
+  ): Promise<CropRegeneration> {
+    const original = await ReplicaService.downloadOriginal(wallpaper);
+    const source = ImageProcessingService.getDisplaySize(
+      await ImageProcessingService.getMetadata(original)
+    );
+    const storage = await StorageFactory.getServiceById(wallpaper.storage_provider_id);
+    const variants = await WallpaperFormatModel.getByWallpaperId(wallpaper.id);
+    // Claimed up front, so a retried attempt never writes to the keys of an interrupted one
+    const revision = (wallpaper.crop_revision || 0) + 1;
+    await WallpaperModel.update(wallpaper.id, { crop_revision: revision });
+
+    const result: CropRegeneration = { regenerated: [], failed: [], invalidated_renders: 0 };
+    const replicaFiles: ReplicaFile[] = [];
+    const superseded: StoredFile[] = [];
+
+    const targets = await this.collectTargets(wallpaper, original, source, revision);
+    let completed = 0;
+    if (onProgress) await onProgress(completed, targets.length);
+
+    for (const target of targets) {
+      try {
+        const processed = await target.generate();
+        const upload = await storage.upload(processed.buffer, {
+          folder: target.folder,
+          filename: target.filename,
+        });
+        await target.save(upload, processed);
+        superseded.push(target.previous);
+
+        // Re-encode the modern format variants of the same crop
+        for (const variant of variants) {
+          if (
+            variant.asset !== target.asset ||
+            (variant.resolution_id || undefined) !== target.resolution_id
+          ) {
+            continue;
+          }
+
+          const encoded = await ImageProcessingService.resize(
+            original,
+            processed.width,
+            processed.height,
+            {
+              format: variant.format,
+              quality: ImageProcessingService.VARIANT_QUALITY[variant.format],
+              focus: wallpaper.focal_point,
+            }
+          );
+          const variantUpload = await storage.upload(encoded.buffer, {
+            folder: target.folder,
+            filename: `${target.filename}-${variant.format}`,
+            format: variant.format,
+          });
+          await WallpaperFormatModel.updateFile(variant.id, {
+            url: variantUpload.url,
+            public_id: variantUpload.publicId,
+            file_size: encoded.size,
+          });
+          superseded.push({
+            storage_provider_id: wallpaper.storage_provider_id,
+            url: variant.url,
+            public_id: variant.public_id,
+          });
+        }
+
+        replicaFiles.push({
+          asset: target.asset,
+          resolution_id: target.resolution_id,
+          buffer: processed.buffer,
+          folder: target.folder,
+          filename: target.filename,
+        });
+        result.regenerated.push(target.name);
+      } catch (error: any) {
+        console.error(`Failed to regenerate ${target.name} of wallpaper ${wallpaper.id}:`, error);
+        result.failed.push({ asset: target.name, error: error.message || 'Regeneration failed' });
+      }
+
+      if (onProgress) await onProgress(++completed, targets.length);
+    }
+
+    // Keep the mirror's copies in step with the new crops
+    superseded.push(...(await WallpaperReplicaModel.getByWallpaperId(wallpaper.id)));
+    await ReplicaService.mirrorUpload(wallpaper.id, wallpaper.storage_provider_id, replicaFiles);
+
+    await StorageCleanupService.deleteSuperseded(wallpaper.id, superseded);
+    result.invalidated_renders = await this.invalidateRenders(wallpaper.id, source);
+
+    return result;
+  }
+
+  // Helper: Derived files whose crop depends on the focal point
+  private static async collectTargets(
+    wallpaper: Wallpaper,
+    original: Buffer,
+    source: { width: number; height: number },
+    revision: number
+  ): Promise<CropTarget[]> {
+    const focus = wallpaper.focal_point;
+    const providerId = wallpaper.storage_provider_id;
+
+    const targets: CropTarget[] = [
+      {
+        name: 'thumbnail',
+        asset: 'thumbnail',
+        folder: 'wallpapers/thumbnails',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-thumb`, revision),
+        previous: {
+          storage_provider_id: providerId,
+          url: wallpaper.thumbnail_url,
+          public_id: wallpaper.thumbnail_public_id,
+        },
+        generate: () =>
+          ImageProcessingService.generateThumbnail(original, undefined, undefined, focus),
+        save: async (upload, processed) =>
+          WallpaperModel.update(wallpaper.id, {
+            thumbnail_url: upload.url,
+            thumbnail_public_id: upload.publicId,
+            ...(await ImageProcessingService.generatePlaceholders(processed.buffer)),
+          }),
+      },
+    ];
+
+    if (wallpaper.medium_url) {
+      targets.push({
+        name: 'medium',
+        asset: 'medium',
+        folder: 'wallpapers/medium',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-medium`, revision),
+        previous: {
+          storage_provider_id: providerId,
+          url: wallpaper.medium_url,
+          public_id: wallpaper.medium_public_id,
+        },
+        generate: () => ImageProcessingService.generateMedium(original, undefined, undefined, focus),
+        save: (upload) =>
+          WallpaperModel.update(wallpaper.id, {
+            medium_url: upload.url,
+            medium_public_id: upload.publicId,
+          }),
+      });
+    }
+
+    // Resolutions with the source's own shape aren't cropped, so they stay as they are
+    const resolutions = await WallpaperResolutionModel.getByWallpaperId(wallpaper.id);
+    for (const resolution of resolutions) {
+      if (resolution.is_original) continue;
+      if (!ImageProcessingService.isCropped(source, resolution.width, resolution.height)) continue;
+
+      targets.push({
+        name: resolution.resolution_name,
+        asset: 'resolution',
+        resolution_id: resolution.id,
+        folder: 'wallpapers/resolutions',
+        filename: SlugUtil.versioned(
+          `${wallpaper.slug}-${resolution.resolution_name.toLowerCase().replace(/\s+/g, '-')}`,
+          revision
+        ),
+        previous: {
+          storage_provider_id: providerId,
+          url: resolution.url,
+          public_id: resolution.public_id,
+        },
+        generate: async () =>
+          ImageProcessingService.resize(original, resolution.width, resolution.height, {
+            ...(await ResolutionPresetService.encodingFor(resolution)),
+            focus,
+            animated: !!wallpaper.is_animated,
+          }),
+        save: (upload, processed) =>
+          WallpaperResolutionModel.updateFile(resolution.id, {
+            url: upload.url,
+            public_id: upload.publicId,
+            file_size: processed.size,
+          }),
+      });
+    }
+
+    return targets;
+  }
+
+  // Helper: Drop cached cover renders so they're re-cropped on the next request
+  private static async invalidateRenders(
+    wallpaperId: number,
+    source: { width: number; height: number }
+  ): Promise<number> {
+    const renders = (await WallpaperRenderModel.getByWallpaperId(wallpaperId)).filter(
+      (render) =>
+        render.fit === 'cover' &&
+        ImageProcessingService.isCropped(source, render.width, render.height)
+    );
+
+    for (const render of renders) {
+      try {
+        const storage = await StorageFactory.getServiceById(render.storage_provider_id);
+        const publicId = render.public_id || storage.getPublicId(render.url);
+        if (publicId) await storage.delete(publicId);
+      } catch (error) {
+        // Left for the storage sweep to remove
+        console.error(`Failed to delete render ${render.id} of wallpaper ${wallpaperId}:`, error);
+      }
+    }
+
+    await WallpaperRenderModel.deleteByIds(renders.map((render) => render.id));
+
+    return renders.length;
+  }
+}
@@ -0,0 +1,86 @@
+import axios, { AxiosResponse } from 'axios';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export class FileStreamService {
+  // Client headers passed on to the storage provider
+  static readonly FORWARDED_REQUEST_HEADERS = [
+    'range',
+    'if-range',
+    'if-none-match',
+    'if-modified-since',
+  ];
+
+  // Provider headers passed back to the client
+  static readonly FORWARDED_RESPONSE_HEADERS = [
+    'content-type',
+    'content-length',
+    'content-range',
+    'accept-ranges',
+    'etag',
+    'last-modified',
+  ];
+
+  // Open a streaming request to the storage provider
+  static async open(url: string, req: Request): Promise<AxiosResponse<Readable>> {
+    const headers: Record<string, string> = {
+      // Raw bytes, so Content-Length and byte ranges stay accurate
+      'accept-encoding': 'identity',
+    };
+
+    for (const name of this.FORWARDED_REQUEST_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    }
+
+    return axios.request<Readable>({
+      url,
+      method: req.method === 'HEAD' ? 'HEAD' : 'GET',
+      headers,
+      responseType: 'stream',
+      decompress: false,
+      // Partial, not-modified and unsatisfiable-range responses are passed through
+      validateStatus: (status) => [200, 206, 304, 416].includes(status),
+    });
+  }
+
+  // Pipe a provider response to the client with backpressure
+  static async pipe(
+    upstream: AxiosResponse<Readable>,
+    res: Response,
+    options: { filename: string; defaultContentType?: string }
+  ): Promise<void> {
+    res.status(upstream.status);
+
+    for (const name of this.FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers[name];
+      if (value !== undefined && value !== null) res.setHeader(name, value);
+    }
+
+    if (upstream.status === 200 || upstream.status === 206) {
+      if (!upstream.headers['content-type'] && options.defaultContentType) {
+        res.setHeader('Content-Type', options.defaultContentType);
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="${options.filename}"`);
+    }
+
+    try {
+      await pipeline(upstream.data, res);
+    } catch (error: any) {
+      // Client went away mid-download; pipeline already destroyed the provider stream
+      if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        throw error;
+      }
+    }
+  }
+
+  // Whether a request is the start of a download (not a resumed or probing request)
+  static isNewDownload(req: Request, upstreamStatus: number): boolean {
+    if (req.method === 'HEAD') return false;
+    if (upstreamStatus !== 200 && upstreamStatus !== 206) return false;
+
+    const range = req.headers['range'];
+    return !range || /^bytes=0-/.test(range);
+  }
+}
@@ -1,9 +1,20 @@
 import sharp from 'sharp';
-
-export interface ResolutionConfig {
-  name: string;
-  width: number;
-  height: number;
+import crypto from 'crypto';
+import { encode } from 'blurhash';
+import exifReader from 'exif-reader';
+import { ColorUtil, Lab } from '../utils/color.util';
+import {
+  FocalPoint,
+  PaletteColor,
+  RemovedMetadata,
+  ResolutionPreset,
+  SkippedResolution,
+  VariantFormat,
+} from '../types';
+
+export interface ResolutionPlan {
+  presets: ResolutionPreset[];
+  skipped: SkippedResolution[];
 }
 
 export interface ProcessedImage {
@@ -14,19 +25,44 @@ export interface ProcessedImage {
   size: number;
 }
 
+// JPEG Annex K luminance table, the base libjpeg scales by quality
+const STANDARD_LUMINANCE_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113,
+  92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
 export class ImageProcessingService {
-  // Standard resolution configurations
-  static readonly RESOLUTIONS: ResolutionConfig[] = [
-    { name: '1080p', width: 1920, height: 1080 },
-    { name: '1440p', width: 2560, height: 1440 },
-    { name: '4K', width: 3840, height: 2160 },
-    { name: '5K', width: 5120, height: 2880 },
-    { name: 'Mobile HD', width: 1080, height: 1920 },
-    { name: 'Mobile 2K', width: 1440, height: 2560 },
-    { name: 'Tablet', width: 1536, height: 2048 },
-    { name: 'Thumbnail', width: 400, height: 300 },
-    { name: 'Medium', width: 800, height: 600 },
-  ];
+  // Modern formats stored next to each JPEG (IMAGE_VARIANT_FORMATS, comma separated)
+  static readonly VARIANT_FORMATS: VariantFormat[] = (process.env.IMAGE_VARIANT_FORMATS ?? 'webp,avif')
+    .split(',')
+    .map((format) => format.trim())
+    .filter((format): format is VariantFormat => format === 'webp' || format === 'avif');
+
+  // Encoder quality per variant format (AVIF looks as good at a lower setting)
+  static readonly VARIANT_QUALITY: Record<VariantFormat, number> = { webp: 82, avif: 55 };
+
+  // Sources within this aspect ratio of 1:1 count as square and get both orientation sets
+  static readonly SQUARE_TOLERANCE = 0.1;
+
+  // Colours kept per palette, and the longest side of the copy they're extracted from
+  static readonly PALETTE_SIZE = 5;
+  static readonly PALETTE_SAMPLE_SIZE = 100;
+
+  // Longest side of the BlurHash sample and of the base64 LQIP
+  static readonly BLURHASH_SAMPLE_SIZE = 32;
+  static readonly LQIP_SIZE = 16;
+
+  // Longest animation accepted, in frames and in milliseconds per loop
+  static readonly ANIMATION_MAX_FRAMES = parseInt(process.env.ANIMATION_MAX_FRAMES || '300');
+  static readonly ANIMATION_MAX_DURATION = parseInt(process.env.ANIMATION_MAX_DURATION || '30000');
+
+  // Longest side of the copy sharpness is measured on
+  static readonly BLUR_SAMPLE_SIZE = 1024;
+
+  // How cover crops pick the region to keep: 'attention' (salient features) or 'entropy' (detail)
+  static readonly CROP_STRATEGY =
+    process.env.RESIZE_CROP_STRATEGY === 'entropy' ? sharp.strategy.entropy : sharp.strategy.attention;
 
   // Process and resize image
   static async resize(
@@ -35,18 +71,37 @@ export class ImageProcessingService {
     height: number,
     options?: {
       quality?: number;
-      format?: 'jpeg' | 'png' | 'webp';
+      format?: 'jpeg' | 'png' | 'webp' | 'avif';
       fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+      focus?: FocalPoint | null; // region cover crops keep in frame
+      animated?: boolean; // keep every frame; the output is then always WebP
     }
   ): Promise<ProcessedImage> {
     const quality = options?.quality || 90;
-    const format = options?.format || 'jpeg';
+    const animated = !!options?.animated;
+    const format = animated ? 'webp' : options?.format || 'jpeg';
     const fit = options?.fit || 'cover';
 
-    const sharpInstance = sharp(imageBuffer).resize(width, height, {
-      fit,
-      position: 'center',
-    });
+    const metadata = await sharp(imageBuffer).metadata();
+
+    // Apply EXIF orientation first so crops match what viewers see
+    const sharpInstance = sharp(imageBuffer, { animated }).rotate();
+    this.applyColourPolicy(sharpInstance, metadata);
+
+    if (fit === 'cover' && options?.focus) {
+      // Scale to cover the target, then cut the window around the focal region
+      const source = this.getDisplaySize(metadata);
+      const crop = this.planFocusCrop(source, width, height, options.focus);
+      sharpInstance
+        .resize(crop.scaledWidth, crop.scaledHeight)
+        .extract({ left: crop.left, top: crop.top, width, height });
+    } else {
+      // sharp's crop strategies don't work on multi-frame images
+      sharpInstance.resize(width, height, {
+        fit,
+        position: fit === 'cover' && !animated ? this.CROP_STRATEGY : 'center',
+      });
+    }
 
     // Apply format-specific options
     if (format === 'jpeg') {
@@ -55,43 +110,305 @@ export class ImageProcessingService {
       sharpInstance.png({ quality });
     } else if (format === 'webp') {
       sharpInstance.webp({ quality });
+    } else if (format === 'avif') {
+      sharpInstance.avif({ quality });
     }
 
     const buffer = await sharpInstance.toBuffer();
-    const metadata = await sharp(buffer).metadata();
+    const output = await sharp(buffer).metadata();
 
     return {
       buffer,
-      width: metadata.width || width,
-      height: metadata.height || height,
-      format: metadata.format || format,
+      width: output.width || width,
+      height: output.height || height,
+      // sharp reports AVIF as its "heif" container
+      format,
       size: buffer.length,
     };
   }
 
-  // Generate all standard resolutions
+  // Where a cover crop to width x height cuts the scaled source to keep the focal region.
+  // A box that fits the window stays whole; otherwise the window centres on it.
+  static planFocusCrop(
+    source: { width: number; height: number },
+    width: number,
+    height: number,
+    focus: FocalPoint
+  ): { scaledWidth: number; scaledHeight: number; left: number; top: number } {
+    const scale = Math.max(width / source.width, height / source.height);
+    const scaledWidth = Math.max(width, Math.round(source.width * scale));
+    const scaledHeight = Math.max(height, Math.round(source.height * scale));
+
+    const place = (start: number, size: number, scaled: number, window: number) => {
+      const boxStart = start * scaled;
+      const boxEnd = (start + size) * scaled;
+      const max = scaled - window;
+
+      let offset = (boxStart + boxEnd) / 2 - window / 2;
+      if (boxEnd - boxStart <= window) {
+        offset = Math.min(Math.max(offset, boxEnd - window), boxStart);
+      }
+      return Math.round(Math.min(Math.max(offset, 0), max));
+    };
+
+    return {
+      scaledWidth,
+      scaledHeight,
+      left: place(focus.x, focus.width || 0, scaledWidth, width),
+      top: place(focus.y, focus.height || 0, scaledHeight, height),
+    };
+  }
+
+  // Cover-fit the image to a canvas and cut regions out of it (e.g. the monitors of a span).
+  // Each region is rendered from the original, so no pixel is scaled or encoded twice.
+  static async sliceCanvas(
+    imageBuffer: Buffer,
+    canvas: { width: number; height: number },
+    regions: { left: number; top: number; width: number; height: number }[],
+    focus?: FocalPoint | null,
+    quality: number = 92
+  ): Promise<ProcessedImage[]> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const source = this.getDisplaySize(metadata);
+    const crop = focus ? this.planFocusCrop(source, canvas.width, canvas.height, focus) : null;
+
+    const slices: ProcessedImage[] = [];
+    for (const region of regions) {
+      const sharpInstance = sharp(imageBuffer).rotate();
+      this.applyColourPolicy(sharpInstance, metadata);
+
+      if (crop) {
+        sharpInstance.resize(crop.scaledWidth, crop.scaledHeight).extract({
+          ...region,
+          left: crop.left + region.left,
+          top: crop.top + region.top,
+        });
+      } else {
+        sharpInstance
+          .resize(canvas.width, canvas.height, { fit: 'cover', position: this.CROP_STRATEGY })
+          .extract(region);
+      }
+
+      const buffer = await sharpInstance.jpeg({ quality }).toBuffer();
+      slices.push({
+        buffer,
+        width: region.width,
+        height: region.height,
+        format: 'jpeg',
+        size: buffer.length,
+      });
+    }
+
+    return slices;
+  }
+
+  // Whether a cover crop to width x height cuts anything off the source
+  static isCropped(source: { width: number; height: number }, width: number, height: number): boolean {
+    return Math.abs(source.width / source.height - width / height) > 0.01;
+  }
+
+  // Metadata policy for uploads: auto-orient, strip EXIF/XMP/IPTC (location, camera serials,
+  // owner names) and keep the colour profile. Returns the input untouched if there's nothing to do.
+  static async applyMetadataPolicy(
+    imageBuffer: Buffer
+  ): Promise<{ buffer: Buffer; removed: RemovedMetadata | null }> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const orientation = metadata.orientation || 1;
+
+    if (!metadata.exif && !metadata.xmp && !metadata.iptc && orientation === 1) {
+      return { buffer: imageBuffer, removed: null };
+    }
+
+    // Without keepMetadata sharp writes no EXIF/XMP/IPTC
+    const animated = (metadata.pages || 1) > 1;
+    const sharpInstance = sharp(imageBuffer, { animated }).rotate();
+    this.applyColourPolicy(sharpInstance, metadata);
+
+    if (metadata.format === 'png') {
+      sharpInstance.png();
+    } else if (metadata.format === 'gif') {
+      sharpInstance.gif();
+    } else if (metadata.format === 'webp') {
+      sharpInstance.webp({ quality: 95 });
+    } else {
+      sharpInstance.jpeg({ quality: 95, chromaSubsampling: '4:4:4' });
+    }
+
+    const exif = metadata.exif ? this.readExif(metadata.exif) : null;
+    const xmp = metadata.xmp ? metadata.xmp.toString('utf8') : null;
+
+    return {
+      buffer: await sharpInstance.toBuffer(),
+      removed: {
+        orientation,
+        has_location: !!exif?.GPSInfo || /exif:GPS(Latitude|Longitude)/.test(xmp || ''),
+        exif,
+        xmp,
+        iptc: metadata.iptc ? metadata.iptc.toString('base64') : null,
+      },
+    };
+  }
+
+  // Keep RGB colour profiles (e.g. Display P3) so wide-gamut images render as intended;
+  // anything else (CMYK, untagged) is converted to sRGB, sharp's default
+  private static applyColourPolicy(sharpInstance: sharp.Sharp, metadata: sharp.Metadata): void {
+    if (metadata.icc && metadata.space === 'srgb') {
+      sharpInstance.keepIccProfile();
+    }
+  }
+
+  // Helper: EXIF as plain JSON; binary fields (maker notes, embedded thumbnail) are dropped
+  private static readExif(exif: Buffer): Record<string, any> | null {
+    const toJson = (value: any): any => {
+      if (Buffer.isBuffer(value)) return undefined;
+      if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.toISOString();
+      if (Array.isArray(value)) return value.map(toJson);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value)
+            .map(([key, entry]) => [key, toJson(entry)])
+            .filter(([, entry]) => entry !== undefined)
+        );
+      }
+      return value;
+    };
+
+    try {
+      const { bigEndian, Thumbnail, ...sections } = exifReader(exif);
+      return toJson(sections);
+    } catch (error) {
+      console.error('Failed to parse EXIF:', error);
+      return null;
+    }
+  }
+
+  // Encode the same crop in every variant format
+  static async generateVariants(
+    imageBuffer: Buffer,
+    width: number,
+    height: number,
+    focus?: FocalPoint | null,
+    formats: VariantFormat[] = this.VARIANT_FORMATS
+  ): Promise<Map<VariantFormat, ProcessedImage>> {
+    const variants = new Map<VariantFormat, ProcessedImage>();
+
+    for (const format of formats) {
+      try {
+        variants.set(
+          format,
+          await this.resize(imageBuffer, width, height, {
+            format,
+            quality: this.VARIANT_QUALITY[format],
+            focus,
+          })
+        );
+      } catch (error) {
+        console.error(`Failed to generate ${format} variant at ${width}x${height}:`, error);
+      }
+    }
+
+    return variants;
+  }
+
+  // Width and height as displayed, after EXIF orientation
+  static getDisplaySize(metadata: sharp.Metadata): { width: number; height: number } {
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+
+    // Orientations 5-8 are rotated by 90 degrees
+    return (metadata.orientation || 1) >= 5 ? { width: height, height: width } : { width, height };
+  }
+
+  // Frame count and loop length (ms) of an animated GIF/WebP, or null for still images
+  static getAnimation(metadata: sharp.Metadata): { frameCount: number; duration: number } | null {
+    const frameCount = metadata.pages || 1;
+    if (frameCount < 2) return null;
+
+    // Browsers show frames without a delay for 100ms
+    const delays = metadata.delay || [];
+    let duration = 0;
+    for (let i = 0; i < frameCount; i++) {
+      duration += delays[i] > 0 ? delays[i] : 100;
+    }
+
+    return { frameCount, duration };
+  }
+
+  // Orientation of a size; near-square shapes count as square
+  static getOrientation(width: number, height: number): 'landscape' | 'portrait' | 'square' {
+    const ratio = height > 0 ? width / height : 0;
+
+    if (ratio > 1 + this.SQUARE_TOLERANCE) return 'landscape';
+    if (ratio < 1 / (1 + this.SQUARE_TOLERANCE)) return 'portrait';
+    return 'square';
+  }
+
+  // Pick the presets a source can fill without upscaling, in its own orientation
+  static planResolutions(
+    width: number,
+    height: number,
+    presets: ResolutionPreset[]
+  ): ResolutionPlan {
+    const plan: ResolutionPlan = { presets: [], skipped: [] };
+    const sourceOrientation = this.getOrientation(width, height);
+
+    for (const preset of presets) {
+      const skip = { name: preset.name, width: preset.width, height: preset.height };
+
+      if (
+        preset.orientation &&
+        sourceOrientation !== 'square' &&
+        preset.orientation !== sourceOrientation
+      ) {
+        plan.skipped.push({
+          ...skip,
+          reason: 'orientation_mismatch',
+          detail: `${preset.orientation} preset for a ${sourceOrientation} source`,
+        });
+      } else if (preset.width > width || preset.height > height) {
+        plan.skipped.push({
+          ...skip,
+          reason: 'larger_than_source',
+          detail: `Source is ${width}x${height}, smaller than ${preset.width}x${preset.height}`,
+        });
+      } else {
+        plan.presets.push(preset);
+      }
+    }
+
+    return plan;
+  }
+
+  // Generate the given presets that fit the source
   static async generateAllResolutions(
     imageBuffer: Buffer,
-    includeOriginal: boolean = true
+    presets: ResolutionPreset[],
+    includeOriginal: boolean = true,
+    focus?: FocalPoint | null
   ): Promise<Map<string, ProcessedImage>> {
     const results = new Map<string, ProcessedImage>();
+    const metadata = await sharp(imageBuffer).metadata();
+    const size = this.getDisplaySize(metadata);
 
     // Add original
     if (includeOriginal) {
-      const metadata = await sharp(imageBuffer).metadata();
       results.set('original', {
         buffer: imageBuffer,
-        width: metadata.width || 0,
-        height: metadata.height || 0,
+        width: size.width,
+        height: size.height,
         format: metadata.format || 'jpeg',
         size: imageBuffer.length,
       });
     }
 
-    // Generate all resolutions
-    for (const res of this.RESOLUTIONS) {
+    // Generate the planned resolutions
+    for (const res of this.planResolutions(size.width, size.height, presets).presets) {
       try {
-        const processed = await this.resize(imageBuffer, res.width, res.height);
+        const processed = await this.resize(imageBuffer, res.width, res.height, {
+          focus,
+          format: res.format,
+          quality: res.quality,
+        });
         results.set(res.name, processed);
       } catch (error) {
         console.error(`Failed to generate ${res.name}:`, error);
@@ -106,34 +423,202 @@ export class ImageProcessingService {
     return sharp(imageBuffer).metadata();
   }
 
-  // Extract dominant color
-  static async extractPrimaryColor(imageBuffer: Buffer): Promise<string> {
-    try {
-      // Use stats to get average color (dominant was removed in newer sharp versions)
-      const stats = await sharp(imageBuffer).stats();
-      const r = Math.round(stats.channels[0].mean);
-      const g = Math.round(stats.channels[1].mean);
-      const b = Math.round(stats.channels[2].mean);
-
-      return `#${r.toString(16).padStart(2, '0')}${g
-        .toString(16)
-        .padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    } catch (error) {
-      console.error('Failed to extract primary color:', error);
-      return '#000000';
+  // Dominant colours with their share of the image, most dominant first
+  static async extractPalette(
+    imageBuffer: Buffer,
+    count: number = this.PALETTE_SIZE
+  ): Promise<PaletteColor[]> {
+    // A small copy is plenty to find the main colours
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize(this.PALETTE_SAMPLE_SIZE, this.PALETTE_SAMPLE_SIZE, { fit: 'inside' })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixels: Lab[] = [];
+    for (let i = 0; i < data.length; i += info.channels) {
+      pixels.push(ColorUtil.rgbToLab(data[i], data[i + 1], data[i + 2]));
+    }
+
+    return ColorUtil.quantize(pixels, count).map(({ lab, proportion }) => {
+      const { r, g, b } = ColorUtil.labToRgb(lab);
+      return {
+        hex: ColorUtil.toHex(r, g, b),
+        proportion: Math.round(proportion * 10000) / 10000,
+        lab: {
+          l: Math.round(lab.l * 100) / 100,
+          a: Math.round(lab.a * 100) / 100,
+          b: Math.round(lab.b * 100) / 100,
+        },
+      };
+    });
+  }
+
+  // Loading placeholders: a BlurHash string and a tiny base64 WebP data URI
+  static async generatePlaceholders(
+    imageBuffer: Buffer
+  ): Promise<{ blurhash: string; lqip: string }> {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .resize(this.BLURHASH_SAMPLE_SIZE, this.BLURHASH_SAMPLE_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // More components along the longer side
+    const landscape = info.width >= info.height;
+    const blurhash = encode(
+      new Uint8ClampedArray(data),
+      info.width,
+      info.height,
+      landscape ? 4 : 3,
+      landscape ? 3 : 4
+    );
+
+    const lqip = await sharp(imageBuffer)
+      .rotate()
+      .resize(this.LQIP_SIZE, this.LQIP_SIZE, { fit: 'inside' })
+      .webp({ quality: 30 })
+      .toBuffer();
+
+    return { blurhash, lqip: `data:image/webp;base64,${lqip.toString('base64')}` };
+  }
+
+  // SHA-256 of the decoded pixels, so re-saved files with different metadata still match
+  static async computeContentHash(imageBuffer: Buffer): Promise<string> {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return crypto
+      .createHash('sha256')
+      .update(`${info.width}x${info.height}x${info.channels}:`)
+      .update(data)
+      .digest('hex');
+  }
+
+  // 64-bit difference hash (hex): survives resizing and re-encoding, compared by Hamming distance
+  static async computePerceptualHash(imageBuffer: Buffer): Promise<string> {
+    // 9x8 grayscale: each row gives 8 left-to-right brightness comparisons
+    const data = await sharp(imageBuffer)
+      .rotate()
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        hash = (hash << 1n) | (data[y * 9 + x] < data[y * 9 + x + 1] ? 1n : 0n);
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  }
+
+  // Sharpness as the variance of the Laplacian; low values mean a blurry image.
+  // Measured on a copy of fixed size so scores of different resolutions compare.
+  static async computeBlurScore(imageBuffer: Buffer): Promise<number> {
+    const data = await sharp(imageBuffer)
+      .rotate()
+      // The convolution ignores the colour channels of images that keep an alpha channel
+      .flatten()
+      .grayscale()
+      .resize(this.BLUR_SAMPLE_SIZE, this.BLUR_SAMPLE_SIZE, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .convolve({ width: 3, height: 3, kernel: [0, 1, 0, 1, -4, 1, 0, 1, 0] })
+      // Signed 16-bit output keeps the full -1020..1020 range that 8-bit output would clip
+      .raw({ depth: 'short' })
+      .toBuffer();
+    const responses = new Int16Array(data.buffer, data.byteOffset, data.length / 2);
+
+    let sum = 0;
+    let sumOfSquares = 0;
+    for (const value of responses) {
+      sum += value;
+      sumOfSquares += value * value;
     }
+
+    const mean = sum / responses.length;
+    return Math.round((sumOfSquares / responses.length - mean * mean) * 100) / 100;
+  }
+
+  // Approximate libjpeg quality (1-100) the JPEG was saved with, from its luminance
+  // quantization table; null for other formats or files without one
+  static estimateJpegQuality(imageBuffer: Buffer): number | null {
+    const table = this.readLuminanceTable(imageBuffer);
+    if (!table) return null;
+
+    // libjpeg scales the standard table by a percentage derived from the quality
+    const scale =
+      (table.reduce((sum, q) => sum + q, 0) /
+        STANDARD_LUMINANCE_TABLE.reduce((sum, q) => sum + q, 0)) *
+      100;
+    const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+
+    return Math.min(100, Math.max(1, Math.round(quality)));
+  }
+
+  // Helper: The 64 entries of quantization table 0 from the JPEG's DQT segments
+  private static readLuminanceTable(buffer: Buffer): number[] | null {
+    if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      // Start of scan: all tables come before the image data
+      if (marker === 0xda) return null;
+
+      const length = buffer.readUInt16BE(offset + 2);
+      const end = offset + 2 + length;
+
+      if (marker === 0xdb) {
+        // One DQT segment may hold several tables
+        let position = offset + 4;
+        while (position < end) {
+          const precision = buffer[position] >> 4;
+          const id = buffer[position] & 0x0f;
+          const size = precision ? 128 : 64;
+          position++;
+          if (position + size > buffer.length) return null;
+
+          if (id === 0) {
+            const table: number[] = [];
+            for (let i = 0; i < 64; i++) {
+              table.push(precision ? buffer.readUInt16BE(position + i * 2) : buffer[position + i]);
+            }
+            return table;
+          }
+          position += size;
+        }
+      }
+
+      offset = end;
+    }
+
+    return null;
   }
 
   // Generate thumbnail
   static async generateThumbnail(
     imageBuffer: Buffer,
     width: number = 400,
-    height: number = 300
+    height: number = 300,
+    focus?: FocalPoint | null
   ): Promise<ProcessedImage> {
     return this.resize(imageBuffer, width, height, {
       quality: 80,
       format: 'jpeg',
       fit: 'cover',
+      focus,
     });
   }
 
@@ -141,12 +626,14 @@ export class ImageProcessingService {
   static async generateMedium(
     imageBuffer: Buffer,
     width: number = 800,
-    height: number = 600
+    height: number = 600,
+    focus?: FocalPoint | null
   ): Promise<ProcessedImage> {
     return this.resize(imageBuffer, width, height, {
       quality: 85,
       format: 'jpeg',
       fit: 'cover',
+      focus,
     });
   }
 
@@ -178,6 +665,8 @@ export class ImageProcessingService {
       maxHeight?: number;
       maxSize?: number; // in bytes
       allowedFormats?: string[];
+      maxFrames?: number; // animated images
+      maxDuration?: number; // animated images, ms per loop
     }
   ): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
@@ -208,6 +697,18 @@ export class ImageProcessingService {
         errors.push(`Height exceeds maximum of ${options.maxHeight}px`);
       }
 
+      // Check animation length
+      const animation = this.getAnimation(metadata);
+      if (animation && options?.maxFrames && animation.frameCount > options.maxFrames) {
+        errors.push(`Animation has ${animation.frameCount} frames, maximum is ${options.maxFrames}`);
+      }
+
+      if (animation && options?.maxDuration && animation.duration > options.maxDuration) {
+        errors.push(
+          `Animation lasts ${(animation.duration / 1000).toFixed(1)}s, maximum is ${(options.maxDuration / 1000).toFixed(1)}s`
+        );
+      }
+
       // Check file size
       if (options?.maxSize && imageBuffer.length > options.maxSize) {
         const maxSizeMB = (options.maxSize / (1024 * 1024)).toFixed(2);
@@ -0,0 +1,93 @@
+import { ImageProcessingService } from './ImageProcessingService';
+import { QualityIssue, QualityReport } from '../types';
+
+// Parse a "WIDTHxHEIGHT" setting
+const parseSize = (value: string): { width: number; height: number } => {
+  const [width, height] = value.toLowerCase().split('x').map((part) => parseInt(part));
+  return { width: width || 0, height: height || 0 };
+};
+
+export class QualityGateService {
+  // Smallest accepted size per source orientation
+  static readonly MIN_SIZE = {
+    landscape: parseSize(process.env.QUALITY_MIN_LANDSCAPE || '1920x1080'),
+    portrait: parseSize(process.env.QUALITY_MIN_PORTRAIT || '1080x1920'),
+    square: parseSize(process.env.QUALITY_MIN_SQUARE || '1080x1080'),
+  };
+  // Laplacian variance below which an image is flagged as blurry
+  static readonly MIN_BLUR_SCORE = parseFloat(process.env.QUALITY_MIN_BLUR_SCORE || '60');
+  // Estimated JPEG quality below which compression artifacts are likely visible
+  static readonly MIN_JPEG_QUALITY = parseInt(process.env.QUALITY_MIN_JPEG_QUALITY || '60');
+  // Widest (or tallest) accepted shape, e.g. 6 = 6:1
+  static readonly MAX_ASPECT_RATIO = parseFloat(process.env.QUALITY_MAX_ASPECT_RATIO || '6');
+
+  // Check an upload against the quality rules.
+  // Errors always block it; warnings only until an admin accepts them.
+  static async check(imageBuffer: Buffer): Promise<QualityReport> {
+    const metadata = await ImageProcessingService.getMetadata(imageBuffer);
+    const { width, height } = ImageProcessingService.getDisplaySize(metadata);
+    const orientation = ImageProcessingService.getOrientation(width, height);
+    const aspectRatio =
+      Math.round((Math.max(width, height) / Math.max(1, Math.min(width, height))) * 100) / 100;
+    const blurScore = await ImageProcessingService.computeBlurScore(imageBuffer);
+    const jpegQuality =
+      metadata.format === 'jpeg' ? ImageProcessingService.estimateJpegQuality(imageBuffer) : null;
+
+    const issues: QualityIssue[] = [];
+
+    const minSize = this.MIN_SIZE[orientation];
+    if (width < minSize.width || height < minSize.height) {
+      issues.push({
+        check: 'dimensions',
+        severity: 'error',
+        message: `Minimum size for ${orientation} images is ${minSize.width}x${minSize.height}px, got ${width}x${height}px`,
+        value: `${width}x${height}`,
+        threshold: `${minSize.width}x${minSize.height}`,
+      });
+    }
+
+    if (aspectRatio > this.MAX_ASPECT_RATIO) {
+      issues.push({
+        check: 'aspect_ratio',
+        severity: 'error',
+        message: `Aspect ratio ${aspectRatio}:1 is wider than the maximum of ${this.MAX_ASPECT_RATIO}:1`,
+        value: aspectRatio,
+        threshold: this.MAX_ASPECT_RATIO,
+      });
+    }
+
+    // Soft-focus or minimal artwork can be intentional, so these only warn
+    if (blurScore < this.MIN_BLUR_SCORE) {
+      issues.push({
+        check: 'blur',
+        severity: 'warning',
+        message: `Image looks blurry (sharpness ${blurScore}, expected at least ${this.MIN_BLUR_SCORE})`,
+        value: blurScore,
+        threshold: this.MIN_BLUR_SCORE,
+      });
+    }
+
+    if (jpegQuality !== null && jpegQuality < this.MIN_JPEG_QUALITY) {
+      issues.push({
+        check: 'compression',
+        severity: 'warning',
+        message: `JPEG is heavily compressed (quality ~${jpegQuality}, expected at least ${this.MIN_JPEG_QUALITY})`,
+        value: jpegQuality,
+        threshold: this.MIN_JPEG_QUALITY,
+      });
+    }
+
+    return {
+      metrics: {
+        width,
+        height,
+        orientation,
+        aspect_ratio: aspectRatio,
+        blur_score: blurScore,
+        jpeg_quality: jpegQuality,
+      },
+      errors: issues.filter((issue) => issue.severity === 'error'),
+      warnings: issues.filter((issue) => issue.severity === 'warning'),
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { FailoverStorageService } from './storage/FailoverStorageService';
+import { ReplicaService } from './storage/ReplicaService';
+import { ImageProcessingService } from './ImageProcessingService';
+import { WallpaperRenderModel } from '../models/WallpaperRender.model';
+import { FormatUtil } from '../utils/format.util';
+import { SlugUtil } from '../utils/slug.util';
+import { Wallpaper, WallpaperRender } from '../types';
+
+// A render request as the client asked for it (CSS pixels)
+export interface RenderRequest {
+  width: number;
+  height: number;
+  dpr: number;
+  fit: WallpaperRender['fit'];
+  format: WallpaperRender['format'];
+}
+
+// What actually gets rendered (device pixels, within the original)
+export interface RenderParams {
+  width: number;
+  height: number;
+  fit: WallpaperRender['fit'];
+  format: WallpaperRender['format'];
+}
+
+export class RenderService {
+  static readonly FITS: WallpaperRender['fit'][] = ['cover', 'contain', 'inside'];
+  static readonly FORMATS: WallpaperRender['format'][] = ['jpeg', 'webp', 'avif'];
+  static readonly DPR_VALUES = [1, 1.5, 2, 3];
+
+  static readonly MIN_DIMENSION = 16;
+  static readonly MAX_DIMENSION = parseInt(process.env.RENDER_MAX_DIMENSION || '7680');
+  // Widest (or tallest) shape accepted, e.g. 4 = 4:1
+  static readonly MAX_ASPECT_RATIO = parseFloat(process.env.RENDER_MAX_ASPECT_RATIO || '4');
+  // Sizes are rounded to this step so near-identical requests share one cached file
+  static readonly SIZE_STEP = parseInt(process.env.RENDER_SIZE_STEP || '8');
+  // Distinct renders cached per wallpaper
+  static readonly MAX_PER_WALLPAPER = parseInt(process.env.RENDER_MAX_PER_WALLPAPER || '100');
+  // Uncached renders one client may trigger per hour
+  static readonly MISSES_PER_HOUR = parseInt(process.env.RENDER_MISSES_PER_HOUR || '30');
+  static readonly MISS_WINDOW = 60 * 60 * 1000;
+
+  private static misses = new Map<string, { count: number; resetAt: number }>();
+  private static missesPrunedAt = 0;
+  private static inflight = new Map<string, Promise<WallpaperRender>>();
+
+  // Validate query parameters against the size policy
+  static parse(
+    query: Record<string, any>,
+    accept?: string
+  ): { request?: RenderRequest; errors: string[] } {
+    const errors: string[] = [];
+
+    const width = parseInt(query.w);
+    const height = parseInt(query.h);
+    const dpr = query.dpr !== undefined ? parseFloat(query.dpr) : 1;
+    const fit = (query.fit || 'cover') as WallpaperRender['fit'];
+
+    if (!width || !height) {
+      errors.push('w and h are required');
+    } else {
+      if (Math.min(width, height) < this.MIN_DIMENSION) {
+        errors.push(`w and h must be at least ${this.MIN_DIMENSION}px`);
+      }
+      if (Math.max(width, height) * (dpr || 1) > this.MAX_DIMENSION) {
+        errors.push(`w and h times dpr must be at most ${this.MAX_DIMENSION}px`);
+      }
+      if (Math.max(width / height, height / width) > this.MAX_ASPECT_RATIO) {
+        errors.push(`Aspect ratio must be at most ${this.MAX_ASPECT_RATIO}:1`);
+      }
+    }
+
+    if (!this.DPR_VALUES.includes(dpr)) {
+      errors.push(`Invalid dpr. Allowed: ${this.DPR_VALUES.join(', ')}`);
+    }
+    if (!this.FITS.includes(fit)) {
+      errors.push(`Invalid fit. Allowed: ${this.FITS.join(', ')}`);
+    }
+
+    // Without an explicit format, pick the best one the client accepts
+    let format = query.format as WallpaperRender['format'] | undefined;
+    if (format && !this.FORMATS.includes(format)) {
+      errors.push(`Invalid format. Allowed: ${this.FORMATS.join(', ')}`);
+    }
+    format = format || FormatUtil.negotiate(accept, ['avif', 'webp']) || 'jpeg';
+
+    if (errors.length > 0) return { errors };
+
+    return { request: { width, height, dpr, fit, format }, errors };
+  }
+
+  // Scale to device pixels, keep within the original and snap to the size step
+  static resolve(request: RenderRequest, original: { width: number; height: number }): RenderParams {
+    let width = request.width * request.dpr;
+    let height = request.height * request.dpr;
+
+    // Never upscale: shrink both sides by the same factor to keep the requested shape
+    const scale = Math.min(1, original.width / width, original.height / height);
+    width *= scale;
+    height *= scale;
+
+    const snap = (value: number, max: number) => {
+      const snapped = Math.round(value / this.SIZE_STEP) * this.SIZE_STEP;
+      return Math.min(max, Math.max(this.MIN_DIMENSION, snapped));
+    };
+
+    return {
+      width: snap(width, original.width),
+      height: snap(height, original.height),
+      fit: request.fit,
+      format: request.format,
+    };
+  }
+
+  // Cache key of a render
+  static cacheKey(params: RenderParams): string {
+    return `${params.width}x${params.height}-${params.fit}.${params.format}`;
+  }
+
+  // Count an uncached render against a client's hourly budget; false once it's used up
+  static takeMiss(clientId: string): boolean {
+    const now = Date.now();
+
+    // Drop expired budgets once per window, so clients seen once don't pile up
+    if (now - this.missesPrunedAt >= this.MISS_WINDOW) {
+      for (const [id, entry] of this.misses) {
+        if (entry.resetAt <= now) this.misses.delete(id);
+      }
+      this.missesPrunedAt = now;
+    }
+
+    const budget = this.misses.get(clientId);
+
+    if (!budget || budget.resetAt <= now) {
+      this.misses.set(clientId, { count: 1, resetAt: now + this.MISS_WINDOW });
+      return true;
+    }
+
+    if (budget.count >= this.MISSES_PER_HOUR) return false;
+
+    budget.count++;
+    return true;
+  }
+
+  // Render and cache a size; concurrent requests for the same one share the work
+  static render(wallpaper: Wallpaper, params: RenderParams): Promise<WallpaperRender> {
+    const key = `${wallpaper.id}:${this.cacheKey(params)}`;
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.produce(wallpaper, params).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  // Helper: Crop the original and store the result on the active provider
+  private static async produce(
+    wallpaper: Wallpaper,
+    params: RenderParams
+  ): Promise<WallpaperRender> {
+    const original = await ReplicaService.downloadOriginal(wallpaper);
+
+    const processed = await ImageProcessingService.resize(original, params.width, params.height, {
+      fit: params.fit,
+      format: params.format,
+      focus: wallpaper.focal_point,
+      // Animated wallpapers keep moving in WebP; other formats get the first frame
+      animated: !!wallpaper.is_animated && params.format === 'webp',
+      quality: params.format === 'jpeg' ? 90 : ImageProcessingService.VARIANT_QUALITY[params.format],
+    });
+
+    const cacheKey = this.cacheKey(params);
+    const { result: upload, attempt } = await FailoverStorageService.run((storage) =>
+      storage.upload(processed.buffer, {
+        folder: 'wallpapers/renders',
+        filename: SlugUtil.versioned(
+          `${wallpaper.slug}-${cacheKey.replace('.', '-')}`,
+          wallpaper.crop_revision || 0
+        ),
+        format: params.format,
+      })
+    );
+
+    try {
+      await WallpaperRenderModel.save({
+        wallpaper_id: wallpaper.id,
+        cache_key: cacheKey,
+        width: processed.width,
+        height: processed.height,
+        fit: params.fit,
+        format: params.format,
+        file_size: processed.size,
+        storage_provider_id: attempt.providerId,
+        url: upload.url,
+        public_id: upload.publicId,
+      });
+    } catch (error) {
+      await attempt.discard();
+      throw error;
+    }
+
+    return (await WallpaperRenderModel.find(wallpaper.id, cacheKey))!;
+  }
+}
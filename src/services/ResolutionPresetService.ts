@@ -0,0 +1,39 @@
+import { ResolutionPresetModel } from '../models/ResolutionPreset.model';
+import { MimeUtil } from '../utils/mime.util';
+import { ResolutionPreset, WallpaperResolution } from '../types';
+
+export class ResolutionPresetService {
+  // Other server instances pick up preset changes after this long (ms)
+  static readonly CACHE_TTL = 60 * 1000;
+
+  private static active: { presets: ResolutionPreset[]; expiresAt: number } | null = null;
+
+  // Presets generated for new uploads, in display order
+  static async getActive(): Promise<ResolutionPreset[]> {
+    if (this.active && this.active.expiresAt > Date.now()) {
+      return this.active.presets;
+    }
+
+    const presets = await ResolutionPresetModel.getActive();
+    this.active = { presets, expiresAt: Date.now() + this.CACHE_TTL };
+    return presets;
+  }
+
+  // Drop the cached presets after a change
+  static reset(): void {
+    this.active = null;
+  }
+
+  // How to re-encode an existing resolution file: it keeps its format (and so its storage
+  // key); the quality comes from the preset of the same name, if there still is one
+  static async encodingFor(
+    resolution: WallpaperResolution
+  ): Promise<{ format: ResolutionPreset['format']; quality: number }> {
+    const preset = await ResolutionPresetModel.findByName(resolution.resolution_name);
+
+    return {
+      format: MimeUtil.fromPath(resolution.url) === 'image/webp' ? 'webp' : 'jpeg',
+      quality: preset?.quality || 90,
+    };
+  }
+}
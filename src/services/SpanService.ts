@@ -0,0 +1,99 @@
+import { ReplicaService } from './storage/ReplicaService';
+import { ImageProcessingService, ProcessedImage } from './ImageProcessingService';
+import { Wallpaper } from '../types';
+
+// Identical monitors side by side, e.g. 3x2560x1440
+export interface SpanLayout {
+  monitors: number;
+  width: number; // per monitor
+  height: number;
+  bezel: number; // px hidden by the frames between two neighbouring monitors
+}
+
+export class SpanService {
+  static readonly MIN_MONITORS = 2;
+  static readonly MAX_MONITORS = parseInt(process.env.SPAN_MAX_MONITORS || '6');
+  static readonly MIN_DIMENSION = 640;
+  static readonly MAX_DIMENSION = 7680;
+  static readonly MAX_BEZEL = 500;
+  // Largest canvas (all monitors plus bezels) rendered for one download
+  static readonly MAX_CANVAS_PIXELS =
+    parseInt(process.env.SPAN_MAX_MEGAPIXELS || '100') * 1000 * 1000;
+
+  // Validate the layout ("COUNTxWIDTHxHEIGHT") and bezel query parameters
+  static parse(query: Record<string, any>): { layout?: SpanLayout; errors: string[] } {
+    const errors: string[] = [];
+
+    const match = /^(\d+)x(\d+)x(\d+)$/i.exec(String(query.layout || '').trim());
+    if (!match) {
+      errors.push('layout is required, as COUNTxWIDTHxHEIGHT (e.g. 3x2560x1440)');
+      return { errors };
+    }
+
+    const [monitors, width, height] = match.slice(1).map((part) => parseInt(part));
+    const bezel = query.bezel !== undefined ? parseInt(query.bezel) : 0;
+
+    if (monitors < this.MIN_MONITORS || monitors > this.MAX_MONITORS) {
+      errors.push(`Monitor count must be between ${this.MIN_MONITORS} and ${this.MAX_MONITORS}`);
+    }
+    if (
+      Math.min(width, height) < this.MIN_DIMENSION ||
+      Math.max(width, height) > this.MAX_DIMENSION
+    ) {
+      errors.push(
+        `Monitor width and height must be between ${this.MIN_DIMENSION} and ${this.MAX_DIMENSION}px`
+      );
+    }
+    if (isNaN(bezel) || bezel < 0 || bezel > this.MAX_BEZEL) {
+      errors.push(`bezel must be between 0 and ${this.MAX_BEZEL}px`);
+    }
+
+    if (errors.length > 0) return { errors };
+
+    const layout = { monitors, width, height, bezel };
+    const canvas = this.canvasSize(layout);
+    if (canvas.width * canvas.height > this.MAX_CANVAS_PIXELS) {
+      const megapixels = this.MAX_CANVAS_PIXELS / 1000000;
+      errors.push(
+        `Layout is too large (${canvas.width}x${canvas.height}); at most ${megapixels} megapixels`
+      );
+      return { errors };
+    }
+
+    return { layout, errors };
+  }
+
+  // Size of the whole picture: the monitors plus the strips hidden behind their bezels
+  static canvasSize(layout: SpanLayout): { width: number; height: number } {
+    return {
+      width: layout.monitors * layout.width + (layout.monitors - 1) * layout.bezel,
+      height: layout.height,
+    };
+  }
+
+  // Short name of a layout, e.g. "3x2560x1440-b40"
+  static describe(layout: SpanLayout): string {
+    const base = `${layout.monitors}x${layout.width}x${layout.height}`;
+    return layout.bezel > 0 ? `${base}-b${layout.bezel}` : base;
+  }
+
+  // Cut one slice per monitor from the original, left to right
+  static async slice(wallpaper: Wallpaper, layout: SpanLayout): Promise<ProcessedImage[]> {
+    const original = await ReplicaService.downloadOriginal(wallpaper);
+
+    // Skip the strip behind each bezel so lines continue straight across monitors
+    const regions = Array.from({ length: layout.monitors }, (_, i) => ({
+      left: i * (layout.width + layout.bezel),
+      top: 0,
+      width: layout.width,
+      height: layout.height,
+    }));
+
+    return ImageProcessingService.sliceCanvas(
+      original,
+      this.canvasSize(layout),
+      regions,
+      wallpaper.focal_point
+    );
+  }
+}
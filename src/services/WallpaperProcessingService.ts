@@ -0,0 +1,499 @@
+import crypto from 'crypto';
+import { WallpaperModel } from '../models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../models/WallpaperResolution.model';
+import { WallpaperFormatModel } from '../models/WallpaperFormat.model';
+import { ProcessingJobModel } from '../models/ProcessingJob.model';
+import { WallpaperReplicaModel } from '../models/WallpaperReplica.model';
+import { StorageFactory } from './storage/StorageFactory';
+import { StorageAttempt } from './storage/FailoverStorageService';
+import { UploadResult } from './storage/IStorageService';
+import { ReplicaFile, ReplicaService } from './storage/ReplicaService';
+import { StorageCleanupService, StoredFile } from './storage/StorageCleanupService';
+import { ImageProcessingService, ProcessedImage } from './ImageProcessingService';
+import { ResolutionPresetService } from './ResolutionPresetService';
+import { CropRegenerationService } from './CropRegenerationService';
+import { SlugUtil } from '../utils/slug.util';
+import { ConcurrencyUtil } from '../utils/concurrency.util';
+import {
+  ProcessingJob,
+  ProcessingJobStatus,
+  ProcessingJobType,
+  SkippedResolution,
+  VariantFormat,
+  Wallpaper,
+  WallpaperFormat,
+  WallpaperProcessingStatus,
+} from '../types';
+
+// One derived file of a wallpaper (thumbnail, medium or a resolution preset)
+interface ProcessingStep {
+  name: string;
+  asset: WallpaperFormat['asset'];
+  folder: string;
+  filename: string;
+  variants: boolean; // encode WebP/AVIF copies; animated files are WebP already
+  generate: () => Promise<ProcessedImage>;
+}
+
+// A step's stored file and its modern format variants
+interface StepOutput {
+  processed: ProcessedImage;
+  upload: UploadResult;
+  variants: { format: VariantFormat; processed: ProcessedImage; upload: UploadResult }[];
+}
+
+export class WallpaperProcessingService {
+  // Images of one wallpaper generated at the same time
+  static readonly CONCURRENCY = parseInt(process.env.PROCESSING_CONCURRENCY || '3');
+  // Jobs run at the same time by this server instance
+  static readonly WORKERS = parseInt(process.env.PROCESSING_WORKERS || '1');
+  static readonly MAX_ATTEMPTS = parseInt(process.env.PROCESSING_MAX_ATTEMPTS || '3');
+  // Extra tries of a single step before it counts as failed
+  static readonly STEP_RETRIES = parseInt(process.env.PROCESSING_STEP_RETRIES || '2');
+  static readonly POLL_INTERVAL = parseInt(process.env.PROCESSING_POLL_INTERVAL || '5000');
+  // Running jobs without a heartbeat for this long are assumed dead
+  static readonly STALE_MINUTES = 10;
+  // Heartbeats are sent on a timer, so one long step can't make a live job look dead (ms)
+  static readonly HEARTBEAT_INTERVAL = 30 * 1000;
+  // Delay before a failed job is retried, doubled on every further attempt
+  static readonly RETRY_DELAY_SECONDS = 30;
+  static readonly STEP_RETRY_DELAY_MS = 1000;
+
+  // Jobs being processed by this server instance
+  private static running = new Set<number>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static polling = false;
+
+  // Start polling the queue; jobs orphaned by a crash or restart are picked up again
+  static async start(): Promise<void> {
+    if (this.timer) return;
+
+    const released = await ProcessingJobModel.releaseStale(this.STALE_MINUTES);
+    if (released > 0) {
+      console.info(`Requeued ${released} interrupted processing job(s)`);
+    }
+
+    this.timer = setInterval(() => this.poll(), this.POLL_INTERVAL);
+    this.poll();
+  }
+
+  // Queue a job for a wallpaper and wake the worker.
+  // A recrop that's still waiting is reused: it reads the focal point when it starts.
+  static async enqueue(
+    wallpaperId: number,
+    type: ProcessingJobType = ProcessingJobType.PROCESS
+  ): Promise<number> {
+    if (type === ProcessingJobType.RECROP) {
+      const pending = await ProcessingJobModel.findPending(wallpaperId, type);
+      if (pending) return pending.id;
+    }
+
+    const jobId = await ProcessingJobModel.create(wallpaperId, this.MAX_ATTEMPTS, type);
+    this.poll();
+    return jobId;
+  }
+
+  // Helper: Claim due jobs while this instance has free workers
+  private static async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await ProcessingJobModel.releaseStale(this.STALE_MINUTES);
+
+      const free = this.WORKERS - this.running.size;
+      if (free <= 0) return;
+
+      for (const job of await ProcessingJobModel.getRunnable(free)) {
+        if (this.running.has(job.id)) continue;
+        // Another instance may have taken it in the meantime
+        const token = crypto.randomBytes(16).toString('hex');
+        if (!(await ProcessingJobModel.claim(job.id, token))) continue;
+
+        this.running.add(job.id);
+        this.run(job.id, token)
+          .catch((error) => console.error(`Processing job ${job.id} crashed:`, error))
+          .finally(() => {
+            this.running.delete(job.id);
+            // A finished job frees a worker for the next one
+            this.poll();
+          });
+      }
+    } catch (error) {
+      console.error('Failed to poll processing jobs:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Helper: Run one attempt of a claimed job and record the outcome
+  private static async run(jobId: number, token: string): Promise<void> {
+    const job = (await ProcessingJobModel.findById(jobId))!;
+    const wallpaper = await WallpaperModel.findById(job.wallpaper_id);
+
+    if (!wallpaper) {
+      await ProcessingJobModel.update(
+        job.id,
+        {
+          status: ProcessingJobStatus.FAILED,
+          error: 'Wallpaper not found',
+          completed_at: new Date(),
+        },
+        token
+      );
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      ProcessingJobModel.heartbeat(job.id, token).catch((error) =>
+        console.error(`Failed to send heartbeat of processing job ${job.id}:`, error)
+      );
+    }, this.HEARTBEAT_INTERVAL);
+
+    try {
+      const errors =
+        job.type === ProcessingJobType.RECROP
+          ? await this.recrop(job, wallpaper, token)
+          : await this.process(job, wallpaper, token);
+
+      await ProcessingJobModel.update(
+        job.id,
+        {
+          status: ProcessingJobStatus.COMPLETED,
+          errors: errors.length > 0 ? errors : null,
+          completed_at: new Date(),
+        },
+        token
+      );
+    } catch (error: any) {
+      if (error.ownershipLost) {
+        console.warn(`Processing job ${job.id} was requeued while running; dropping its results`);
+        return;
+      }
+
+      console.error(`Processing of wallpaper ${wallpaper.id} failed (attempt ${job.attempts}):`, error);
+      const message = error.message || 'Processing failed';
+      const errors = error.steps || null;
+
+      if (job.attempts < job.max_attempts) {
+        const delay = this.RETRY_DELAY_SECONDS * 2 ** (job.attempts - 1);
+        await ProcessingJobModel.retryLater(job.id, delay, message, errors, token);
+        return;
+      }
+
+      await ProcessingJobModel.update(
+        job.id,
+        {
+          status: ProcessingJobStatus.FAILED,
+          error: message,
+          errors,
+          completed_at: new Date(),
+        },
+        token
+      );
+      // A failed recrop leaves the wallpaper with its earlier crops, still usable
+      if (job.type === ProcessingJobType.PROCESS) {
+        await WallpaperModel.update(wallpaper.id, {
+          processing_status: WallpaperProcessingStatus.FAILED,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Helper: Stop before writing results once another worker has taken the job over
+  private static async ensureOwner(job: ProcessingJob, token: string): Promise<void> {
+    if (!(await ProcessingJobModel.isOwner(job.id, token))) {
+      throw Object.assign(new Error('Processing job was taken over by another worker'), {
+        ownershipLost: true,
+      });
+    }
+  }
+
+  // Helper: Re-cut the crops of a ready wallpaper around its focal point.
+  // Returns the files that failed; if none could be regenerated, the attempt fails.
+  private static async recrop(
+    job: ProcessingJob,
+    wallpaper: Wallpaper,
+    token: string
+  ): Promise<{ step: string; error: string }[]> {
+    // Wallpapers still being processed pick up the focal point then
+    if (wallpaper.processing_status !== WallpaperProcessingStatus.READY) return [];
+
+    // Checked before every crop, since each one replaces files right away
+    await this.ensureOwner(job, token);
+    const result = await CropRegenerationService.regenerate(wallpaper, async (completed, total) => {
+      await ProcessingJobModel.update(
+        job.id,
+        { completed_steps: completed, total_steps: total },
+        token
+      );
+      if (completed < total) await this.ensureOwner(job, token);
+    });
+    const errors = result.failed.map((failure) => ({ step: failure.asset, error: failure.error }));
+
+    if (result.regenerated.length === 0 && errors.length > 0) {
+      throw Object.assign(new Error('Failed to regenerate crops'), { steps: errors });
+    }
+
+    return errors;
+  }
+
+  // Helper: Generate and store every derived file, then publish the wallpaper.
+  // Returns the resolution presets that failed; a failed thumbnail or medium throws.
+  private static async process(
+    job: ProcessingJob,
+    wallpaper: Wallpaper,
+    token: string
+  ): Promise<{ step: string; error: string }[]> {
+    const original = await ReplicaService.downloadOriginal(wallpaper);
+    const size = ImageProcessingService.getDisplaySize(
+      await ImageProcessingService.getMetadata(original)
+    );
+    const plan = ImageProcessingService.planResolutions(
+      size.width,
+      size.height,
+      await ResolutionPresetService.getActive()
+    );
+    const focus = wallpaper.focal_point;
+    const animated = !!wallpaper.is_animated;
+    const slug = wallpaper.slug;
+    const versioned = (filename: string) =>
+      SlugUtil.versioned(filename, wallpaper.crop_revision || 0);
+
+    // Animated wallpapers get a still first frame as thumbnail and medium (the poster),
+    // and animated WebP resolutions
+    const steps: ProcessingStep[] = [
+      {
+        name: 'thumbnail',
+        asset: 'thumbnail',
+        folder: 'wallpapers/thumbnails',
+        filename: versioned(`${slug}-thumb`),
+        variants: true,
+        generate: () =>
+          ImageProcessingService.generateThumbnail(original, undefined, undefined, focus),
+      },
+      {
+        name: 'medium',
+        asset: 'medium',
+        folder: 'wallpapers/medium',
+        filename: versioned(`${slug}-medium`),
+        variants: true,
+        generate: () => ImageProcessingService.generateMedium(original, undefined, undefined, focus),
+      },
+      ...plan.presets.map((preset) => ({
+        name: preset.name,
+        asset: 'resolution' as const,
+        folder: 'wallpapers/resolutions',
+        filename: versioned(`${slug}-${preset.name.toLowerCase().replace(/\s+/g, '-')}`),
+        variants: !animated,
+        generate: () =>
+          ImageProcessingService.resize(original, preset.width, preset.height, {
+            focus,
+            animated,
+            format: preset.format,
+            quality: preset.quality,
+          }),
+      })),
+    ];
+
+    await ProcessingJobModel.update(
+      job.id,
+      { total_steps: steps.length, completed_steps: 0 },
+      token
+    );
+
+    // Files go to the provider that already holds the original
+    const attempt = new StorageAttempt(
+      wallpaper.storage_provider_id,
+      await StorageFactory.getServiceById(wallpaper.storage_provider_id)
+    );
+    // Set once the wallpaper is ready on the new files; they are never discarded after that
+    let published = false;
+
+    let completed = 0;
+    const results = await ConcurrencyUtil.map(steps, this.CONCURRENCY, async (step) => {
+      const output = await ConcurrencyUtil.retry(
+        () => this.runStep(step, original, attempt, focus),
+        this.STEP_RETRIES,
+        this.STEP_RETRY_DELAY_MS
+      );
+      await ProcessingJobModel.update(job.id, { completed_steps: ++completed }, token);
+      return output;
+    });
+
+    const outputs = new Map<string, StepOutput>();
+    const errors: { step: string; error: string }[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        outputs.set(steps[i].name, result.value);
+      } else {
+        errors.push({ step: steps[i].name, error: result.reason?.message || 'Generation failed' });
+      }
+    });
+
+    try {
+      const thumbnail = outputs.get('thumbnail');
+      const medium = outputs.get('medium');
+      if (!thumbnail || !medium) {
+        throw Object.assign(new Error(`Failed to generate ${thumbnail ? 'medium' : 'thumbnail'}`), {
+          steps: errors,
+        });
+      }
+
+      const skippedResolutions: SkippedResolution[] = [
+        ...plan.skipped,
+        ...plan.presets
+          .filter((preset) => !outputs.has(preset.name))
+          .map((preset) => ({
+            name: preset.name,
+            width: preset.width,
+            height: preset.height,
+            reason: 'generation_failed' as const,
+            detail: 'Resizing failed',
+          })),
+      ];
+
+      // Placeholders match the thumbnail that grids show while images load
+      const placeholders = await ImageProcessingService.generatePlaceholders(
+        thumbnail.processed.buffer
+      ).catch((error) => {
+        console.error('Failed to generate placeholders:', error);
+        return null;
+      });
+
+      // A worker that lost the job must not replace the rows of the one running it now
+      await this.ensureOwner(job, token);
+
+      // Rows of an earlier attempt are replaced; their files go once nothing points at them
+      const previousFiles: StoredFile[] = [
+        ...(wallpaper.resolutions || [])
+          .filter((resolution) => !resolution.is_original)
+          .map((resolution) => ({
+            ...resolution,
+            storage_provider_id: wallpaper.storage_provider_id,
+          })),
+        ...(await WallpaperFormatModel.getByWallpaperId(wallpaper.id)).map((format) => ({
+          ...format,
+          storage_provider_id: wallpaper.storage_provider_id,
+        })),
+        ...(await WallpaperReplicaModel.getByWallpaperId(wallpaper.id)).filter(
+          (replica) => replica.asset !== 'original'
+        ),
+      ];
+      await WallpaperFormatModel.deleteByWallpaperId(wallpaper.id);
+      await WallpaperResolutionModel.deleteDerived(wallpaper.id);
+
+      await WallpaperResolutionModel.bulkCreate(
+        plan.presets
+          .filter((preset) => outputs.has(preset.name))
+          .map((preset) => {
+            const { processed, upload } = outputs.get(preset.name)!;
+            return {
+              wallpaper_id: wallpaper.id,
+              width: processed.width,
+              height: processed.height,
+              resolution_name: preset.name,
+              file_size: processed.size,
+              url: upload.url,
+              public_id: upload.publicId,
+              is_original: 0 as 0 | 1,
+            };
+          })
+      );
+      const createdResolutions = await WallpaperResolutionModel.getByWallpaperId(wallpaper.id);
+      const resolutionId = (step: ProcessingStep) =>
+        step.asset === 'resolution'
+          ? createdResolutions.find((r) => !r.is_original && r.resolution_name === step.name)?.id
+          : undefined;
+
+      // Attach format variants to the rows they belong to
+      await WallpaperFormatModel.bulkCreate(
+        steps
+          .filter((step) => outputs.has(step.name))
+          .flatMap((step) =>
+            outputs.get(step.name)!.variants.map(({ format, processed, upload }) => ({
+              wallpaper_id: wallpaper.id,
+              resolution_id: resolutionId(step),
+              asset: step.asset,
+              format,
+              file_size: processed.size,
+              url: upload.url,
+              public_id: upload.publicId,
+            }))
+          )
+      );
+
+      await WallpaperModel.update(wallpaper.id, {
+        thumbnail_url: thumbnail.upload.url,
+        thumbnail_public_id: thumbnail.upload.publicId,
+        medium_url: medium.upload.url,
+        medium_public_id: medium.upload.publicId,
+        ...(placeholders || {}),
+        skipped_resolutions: skippedResolutions,
+        processing_status: WallpaperProcessingStatus.READY,
+      });
+      published = true;
+
+      // Copy the derived files to the mirror provider for disaster recovery
+      const replicaFiles: ReplicaFile[] = steps
+        .filter((step) => outputs.has(step.name))
+        .map((step) => ({
+          asset: step.asset,
+          resolution_id: resolutionId(step),
+          buffer: outputs.get(step.name)!.processed.buffer,
+          folder: step.folder,
+          filename: step.filename,
+        }));
+      await ReplicaService.mirrorUpload(wallpaper.id, wallpaper.storage_provider_id, replicaFiles);
+      await StorageCleanupService.deleteSuperseded(wallpaper.id, previousFiles);
+    } catch (error: any) {
+      // Don't leave files behind that no row points at. Once published, a ready wallpaper
+      // points at them; after a takeover they share their keys with the new owner's.
+      if (!published && !error.ownershipLost) await attempt.discard();
+      throw error;
+    }
+
+    return errors;
+  }
+
+  // Helper: Generate, store and encode the variants of one derived file
+  private static async runStep(
+    step: ProcessingStep,
+    original: Buffer,
+    attempt: StorageAttempt,
+    focus: Wallpaper['focal_point']
+  ): Promise<StepOutput> {
+    const processed = await step.generate();
+    const upload = await attempt.upload(processed.buffer, {
+      folder: step.folder,
+      filename: step.filename,
+    });
+
+    const variants: StepOutput['variants'] = [];
+    if (!step.variants) return { processed, upload, variants };
+
+    // A WebP preset already is the WebP file
+    const files = await ImageProcessingService.generateVariants(
+      original,
+      processed.width,
+      processed.height,
+      focus,
+      ImageProcessingService.VARIANT_FORMATS.filter((format) => format !== processed.format)
+    );
+    for (const [format, file] of files) {
+      variants.push({
+        format,
+        processed: file,
+        upload: await attempt.upload(file.buffer, {
+          folder: step.folder,
+          filename: `${step.filename}-${format}`,
+          format,
+        }),
+      });
+    }
+
+    return { processed, upload, variants };
+  }
+}
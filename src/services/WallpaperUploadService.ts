@@ -0,0 +1,193 @@
+import { WallpaperModel } from '../models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../models/WallpaperResolution.model';
+import { WallpaperColorModel } from '../models/WallpaperColor.model';
+import { WallpaperMetadataModel } from '../models/WallpaperMetadata.model';
+import { SlugUtil } from '../utils/slug.util';
+import { FailoverStorageService, StorageAttempt } from './storage/FailoverStorageService';
+import { UploadResult } from './storage/IStorageService';
+import { ReplicaFile, ReplicaService } from './storage/ReplicaService';
+import { ImageProcessingService } from './ImageProcessingService';
+import { WallpaperProcessingService } from './WallpaperProcessingService';
+import { PaletteColor, Wallpaper, WallpaperProcessingStatus, WallpaperSource } from '../types';
+
+export interface WallpaperUploadInput {
+  original: Buffer;
+  title: string;
+  description?: string;
+  tags?: string[];
+  categoryIds?: number[];
+  isFeatured?: boolean;
+  uploadedBy: number;
+  contentHash?: string;
+}
+
+export class WallpaperUploadService {
+  // Validation rules shared by every admin upload path
+  static validate(buffer: Buffer, maxSize: number) {
+    return ImageProcessingService.validate(buffer, {
+      maxWidth: 10000,
+      maxHeight: 10000,
+      maxSize,
+      allowedFormats: ['jpeg', 'jpg', 'png', 'webp', 'gif'],
+      maxFrames: ImageProcessingService.ANIMATION_MAX_FRAMES,
+      maxDuration: ImageProcessingService.ANIMATION_MAX_DURATION,
+    });
+  }
+
+  // Hash an original and look for an active wallpaper with the same content
+  static async findDuplicate(
+    buffer: Buffer
+  ): Promise<{ contentHash: string; duplicate: { id: number; title: string; slug: string } | null }> {
+    const contentHash = await ImageProcessingService.computeContentHash(buffer);
+    const duplicate = await WallpaperModel.findByContentHash(contentHash);
+    return { contentHash, duplicate };
+  }
+
+  // Find visually near-identical wallpapers (resized or re-encoded copies)
+  static async findNearDuplicates(
+    wallpaper: Wallpaper,
+    maxDistance: number
+  ): Promise<{ id: number; title: string; slug: string; distance: number }[]> {
+    if (!wallpaper.perceptual_hash) return [];
+
+    const similar = await WallpaperModel.findSimilar(
+      wallpaper.perceptual_hash,
+      maxDistance,
+      5,
+      wallpaper.id
+    );
+    return similar.map(({ id, title, slug, distance }) => ({ id, title, slug, distance }));
+  }
+
+  // Store the original and create the wallpaper in the processing state; thumbnails,
+  // medium and resolutions are generated by the processing queue afterwards.
+  // With `storedOriginal` the original already lives on the provider of `attempt`
+  // (direct uploads), so nothing fails over.
+  static async create(
+    input: WallpaperUploadInput,
+    pinned?: { attempt: StorageAttempt; storedOriginal: UploadResult }
+  ): Promise<{ wallpaper: Wallpaper; jobId: number }> {
+    // Auto-orient and strip identifying metadata before anything is stored or derived
+    const { buffer: original, removed: removedMetadata } =
+      await ImageProcessingService.applyMetadataPolicy(input.original);
+
+    // Extract metadata
+    const metadata = await ImageProcessingService.getMetadata(original);
+    const size = ImageProcessingService.getDisplaySize(metadata);
+    const animation = ImageProcessingService.getAnimation(metadata);
+    const palette = await ImageProcessingService.extractPalette(original).catch((error) => {
+      console.error('Failed to extract palette:', error);
+      return [] as PaletteColor[];
+    });
+
+    const perceptualHash = await ImageProcessingService.computePerceptualHash(original);
+
+    // Generate slug
+    const slug = SlugUtil.generateWithTimestamp(input.title);
+
+    // A direct upload is stored as-is unless the policy had to rewrite it
+    const uploadOriginal = (storage: StorageAttempt) =>
+      pinned && !removedMetadata
+        ? Promise.resolve(pinned.storedOriginal)
+        : storage.upload(original, { folder: 'wallpapers/original', filename: slug });
+
+    // Storage attempt and row written so far, removed again if the upload fails part-way
+    let attempt: StorageAttempt | null = pinned?.attempt || null;
+    let wallpaperId: number | null = null;
+
+    try {
+      let originalUpload: UploadResult;
+      if (pinned) {
+        originalUpload = await uploadOriginal(pinned.attempt);
+      } else {
+        // Store the original on the first storage provider (by priority) that accepts it
+        const result = await FailoverStorageService.run(uploadOriginal);
+        attempt = result.attempt;
+        originalUpload = result.result;
+      }
+
+      // Create wallpaper; the original stands in for the thumbnail until processing is done
+      wallpaperId = await WallpaperModel.create({
+        title: input.title,
+        slug,
+        description: input.description,
+        original_url: originalUpload.url,
+        thumbnail_url: originalUpload.url,
+        original_public_id: originalUpload.publicId,
+        primary_color: palette[0]?.hex || '#000000',
+        content_hash: input.contentHash,
+        perceptual_hash: perceptualHash,
+        tags: input.tags || [],
+        source: WallpaperSource.ADMIN,
+        uploaded_by: input.uploadedBy,
+        storage_provider_id: attempt!.providerId,
+        is_featured: input.isFeatured ? 1 : 0,
+        is_animated: animation ? 1 : 0,
+        frame_count: animation?.frameCount,
+        animation_duration: animation?.duration,
+        processing_status: WallpaperProcessingStatus.PROCESSING,
+      });
+
+      await WallpaperColorModel.replace(wallpaperId, palette);
+      if (removedMetadata) {
+        await WallpaperMetadataModel.create(wallpaperId, removedMetadata);
+      }
+
+      // Add categories
+      if (input.categoryIds && input.categoryIds.length > 0) {
+        await WallpaperModel.addCategories(wallpaperId, input.categoryIds);
+      }
+
+      // Add original resolution
+      await WallpaperResolutionModel.bulkCreate([
+        {
+          wallpaper_id: wallpaperId,
+          width: size.width,
+          height: size.height,
+          resolution_name: 'Original',
+          file_size: original.length,
+          url: originalUpload.url,
+          public_id: originalUpload.publicId,
+          is_original: 1,
+        },
+      ]);
+      const [originalResolution] = await WallpaperResolutionModel.getByWallpaperId(wallpaperId);
+
+      const jobId = await WallpaperProcessingService.enqueue(wallpaperId);
+
+      // Copy the original to the mirror provider for disaster recovery
+      const replicaFiles: ReplicaFile[] = [
+        { asset: 'original', buffer: original, folder: 'wallpapers/original', filename: slug },
+        {
+          asset: 'resolution',
+          resolution_id: originalResolution.id,
+          buffer: original,
+          folder: 'wallpapers/original',
+          filename: slug,
+        },
+      ];
+      await ReplicaService.mirrorUpload(wallpaperId, attempt!.providerId, replicaFiles);
+
+      // The raw direct upload was replaced by the cleaned original
+      if (pinned && removedMetadata && pinned.storedOriginal.publicId) {
+        await pinned.attempt.service
+          .delete(pinned.storedOriginal.publicId)
+          .catch((error) => console.error('Failed to remove raw direct upload:', error));
+      }
+
+      // Get created wallpaper with all data
+      return { wallpaper: (await WallpaperModel.findById(wallpaperId))!, jobId };
+    } catch (error) {
+      // Don't leave half-created wallpapers or orphaned files behind
+      if (wallpaperId) {
+        await WallpaperModel.hardDelete(wallpaperId).catch((cleanupError) =>
+          console.error('Failed to remove partial wallpaper:', cleanupError)
+        );
+      }
+      // A pinned attempt never tracked the raw direct upload, so it can be finalized again
+      await attempt?.discard();
+
+      throw error;
+    }
+  }
+}
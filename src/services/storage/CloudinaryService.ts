@@ -1,13 +1,19 @@
 import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
-import { IStorageService, UploadResult } from './IStorageService';
+import axios from 'axios';
+import { IStorageService, StorageObject, StorageObjectHead, UploadResult } from './IStorageService';
+import { ResolutionPresetService } from '../ResolutionPresetService';
+import { CloudinaryConfig } from '../../types';
 
 export class CloudinaryService implements IStorageService {
-  constructor() {
-    cloudinary.config({
-      cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-      api_key: process.env.CLOUDINARY_API_KEY,
-      api_secret: process.env.CLOUDINARY_API_SECRET,
-    });
+  // Passed on every call, so services built from different provider rows don't clash
+  private credentials: Record<string, string | undefined>;
+
+  constructor(config?: Partial<CloudinaryConfig>) {
+    this.credentials = {
+      cloud_name: config?.cloud_name || process.env.CLOUDINARY_CLOUD_NAME,
+      api_key: config?.api_key || process.env.CLOUDINARY_API_KEY,
+      api_secret: config?.api_secret || process.env.CLOUDINARY_API_SECRET,
+    };
   }
 
   async upload(
@@ -16,6 +22,7 @@ export class CloudinaryService implements IStorageService {
   ): Promise<UploadResult> {
     return new Promise((resolve, reject) => {
       const uploadOptions: any = {
+        ...this.credentials,
         folder: options.folder || 'wallpapers',
         resource_type: 'image',
         public_id: options.filename,
@@ -48,7 +55,7 @@ export class CloudinaryService implements IStorageService {
   }
 
   async delete(publicId: string): Promise<void> {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, this.credentials);
   }
 
   getUrl(
@@ -60,7 +67,7 @@ export class CloudinaryService implements IStorageService {
       format?: string;
     }
   ): string {
-    const transformations: any = {};
+    const transformations: any = { ...this.credentials };
 
     if (options?.width) transformations.width = options.width;
     if (options?.height) transformations.height = options.height;
@@ -70,17 +77,97 @@ export class CloudinaryService implements IStorageService {
     return cloudinary.url(publicId, transformations);
   }
 
+  async download(publicId: string): Promise<Buffer> {
+    const response = await axios.get(cloudinary.url(publicId, { ...this.credentials, secure: true }), {
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(response.data);
+  }
+
+  async head(publicId: string): Promise<StorageObjectHead | null> {
+    // Delivery URLs aren't rate limited like the Admin API
+    const url = cloudinary.url(publicId, { ...this.credentials, secure: true });
+    const response = await axios.head(url, {
+      validateStatus: (status) => status < 500,
+    });
+
+    if (response.status === 404) return null;
+    if (response.status >= 400) {
+      throw new Error(`Cloudinary responded with ${response.status}`);
+    }
+
+    return {
+      size: parseInt(response.headers['content-length']) || undefined,
+      contentType: response.headers['content-type'],
+    };
+  }
+
+  async getSignedDownloadUrl(
+    publicId: string,
+    options: { filename: string; expiresIn?: number }
+  ): Promise<string> {
+    // Delivery URL signatures never expire, so the link goes through the download API,
+    // which enforces expires_at. It names the file after the public ID, not `filename`.
+    const extension = options.filename.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+    const format = !extension || extension === 'jpeg' ? 'jpg' : extension;
+
+    return cloudinary.utils.private_download_url(publicId, format, {
+      ...this.credentials,
+      type: 'upload',
+      resource_type: 'image',
+      attachment: true,
+      expires_at: Math.floor(Date.now() / 1000) + (options.expiresIn || 300),
+    });
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let nextCursor: string | undefined;
+
+    do {
+      const response = await cloudinary.api.resources({
+        ...this.credentials,
+        type: 'upload',
+        resource_type: 'image',
+        prefix,
+        max_results: 500,
+        next_cursor: nextCursor,
+      });
+
+      for (const resource of response.resources) {
+        objects.push({
+          publicId: resource.public_id,
+          size: resource.bytes,
+          lastModified: resource.created_at ? new Date(resource.created_at) : undefined,
+        });
+      }
+
+      nextCursor = response.next_cursor;
+    } while (nextCursor);
+
+    return objects;
+  }
+
+  getPublicId(url: string): string | null {
+    // e.g. https://res.cloudinary.com/<cloud>/image/upload/c_fill,w_400/v123/wallpapers/original/slug.jpg
+    const match = url.split('?')[0].match(/\/image\/upload\/(.+)$/);
+    if (!match) return null;
+
+    const segments = match[1].split('/');
+
+    // Drop transformation and version segments
+    while (segments.length > 1 && (/^v\d+$/.test(segments[0]) || /^[a-z]{1,3}_/.test(segments[0]))) {
+      segments.shift();
+    }
+
+    return decodeURIComponent(segments.join('/').replace(/\.[a-z0-9]+$/i, ''));
+  }
+
   async generateResolutions(
     file: Buffer,
     options: { folder?: string; filename?: string }
   ): Promise<UploadResult[]> {
-    const resolutions = [
-      { name: '1080p', width: 1920, height: 1080 },
-      { name: '1440p', width: 2560, height: 1440 },
-      { name: '4K', width: 3840, height: 2160 },
-      { name: 'Mobile', width: 1080, height: 1920 },
-      { name: 'Tablet', width: 1536, height: 2048 },
-    ];
+    const resolutions = await ResolutionPresetService.getActive();
 
     // Upload original first
     const originalUpload = await this.upload(file, {
@@ -102,12 +189,13 @@ export class CloudinaryService implements IStorageService {
         const resizedUrl = this.getUrl(originalUpload.publicId!, {
           width: res.width,
           height: res.height,
-          quality: 90,
+          quality: res.quality,
+          format: res.format,
         });
 
         results.push({
           url: resizedUrl,
-          publicId: `${originalUpload.publicId}-${res.name.toLowerCase()}`,
+          publicId: `${originalUpload.publicId}-${res.name.toLowerCase().replace(/\s+/g, '-')}`,
           width: res.width,
           height: res.height,
         });
@@ -0,0 +1,73 @@
+import { IStorageService, UploadResult } from './IStorageService';
+import { StorageFactory } from './StorageFactory';
+
+// One provider's attempt at a unit of work; remembers what it uploaded
+export class StorageAttempt {
+  readonly uploaded: string[] = [];
+
+  constructor(
+    readonly providerId: number,
+    readonly service: IStorageService
+  ) {}
+
+  // Upload and remember the object so it can be discarded later
+  async upload(
+    file: Buffer,
+    options: { folder?: string; filename?: string; format?: string }
+  ): Promise<UploadResult> {
+    const result = await this.service.upload(file, options);
+    if (result.publicId) this.uploaded.push(result.publicId);
+    return result;
+  }
+
+  // Remove everything uploaded by this attempt
+  async discard(): Promise<void> {
+    for (const publicId of this.uploaded) {
+      try {
+        await this.service.delete(publicId);
+      } catch (error) {
+        console.error(`Failed to remove uploaded file ${publicId}:`, error);
+      }
+    }
+    this.uploaded.length = 0;
+  }
+}
+
+export class FailoverStorageService {
+  // Run a unit of work against active providers in priority order until one succeeds.
+  // All objects of one unit end up on the same provider.
+  static async run<T>(
+    task: (attempt: StorageAttempt) => Promise<T>
+  ): Promise<{ result: T; attempt: StorageAttempt }> {
+    const providers = await StorageFactory.getActiveProviders();
+
+    if (providers.length === 0) {
+      throw new Error('No active storage provider configured');
+    }
+
+    // Providers cooling down are only tried once every healthy one has failed
+    const ordered = [
+      ...providers.filter((p) => StorageFactory.isHealthy(p.id)),
+      ...providers.filter((p) => !StorageFactory.isHealthy(p.id)),
+    ];
+
+    const errors: string[] = [];
+
+    for (const provider of ordered) {
+      const attempt = new StorageAttempt(provider.id, provider.service);
+
+      try {
+        const result = await task(attempt);
+        StorageFactory.recordSuccess(provider.id);
+        return { result, attempt };
+      } catch (error: any) {
+        console.error(`Storage provider ${provider.name} (${provider.id}) failed:`, error);
+        StorageFactory.recordFailure(provider.id);
+        errors.push(`${provider.name}: ${error.message || 'unknown error'}`);
+        await attempt.discard();
+      }
+    }
+
+    throw new Error(`All storage providers failed (${errors.join('; ')})`);
+  }
+}
@@ -8,6 +8,23 @@ export interface UploadResult {
   size?: number;
 }
 
+export interface StorageObject {
+  publicId: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface StorageObjectHead {
+  size?: number;
+  contentType?: string;
+}
+
+export interface SignedUpload {
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+}
+
 export interface IStorageService {
   // Upload a file
   upload(file: Buffer, options: {
@@ -27,6 +44,31 @@ export interface IStorageService {
     format?: string;
   }): string;
 
+  // Read a file back from storage
+  download(publicId: string): Promise<Buffer>;
+
+  // Get size and content type of a stored file, or null if it doesn't exist
+  head(publicId: string): Promise<StorageObjectHead | null>;
+
+  // Get a short-lived URL the browser can upload a file to directly (optional capability)
+  getSignedUploadUrl?(publicId: string, options: {
+    contentType: string;
+    expiresIn?: number; // in seconds
+    maxSize?: number; // in bytes
+  }): Promise<SignedUpload>;
+
+  // Get a short-lived URL that downloads the file as an attachment (optional capability)
+  getSignedDownloadUrl?(publicId: string, options: {
+    filename: string;
+    expiresIn?: number; // in seconds
+  }): Promise<string>;
+
+  // List files under a folder
+  list(prefix: string): Promise<StorageObject[]>;
+
+  // Resolve the public ID behind a URL returned by upload/getUrl
+  getPublicId(url: string): string | null;
+
   // Generate multiple resolutions
   generateResolutions(file: Buffer, options: {
     folder?: string;
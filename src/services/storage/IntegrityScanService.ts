@@ -0,0 +1,413 @@
+import { RowDataPacket } from 'mysql2';
+import { IStorageService, StorageObjectHead, UploadResult } from './IStorageService';
+import { StorageFactory } from './StorageFactory';
+import { ReplicaService } from './ReplicaService';
+import { ImageProcessingService, ProcessedImage } from '../ImageProcessingService';
+import { ResolutionPresetService } from '../ResolutionPresetService';
+import { IntegrityScanModel } from '../../models/IntegrityScan.model';
+import { WallpaperModel } from '../../models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../../models/WallpaperResolution.model';
+import { WallpaperFormatModel } from '../../models/WallpaperFormat.model';
+import { MimeUtil } from '../../utils/mime.util';
+import { SlugUtil } from '../../utils/slug.util';
+import {
+  IntegrityIssue,
+  IntegrityIssueStatus,
+  IntegrityIssueType,
+  IntegrityScanStatus,
+  Wallpaper,
+} from '../../types';
+
+interface ScanAsset {
+  asset: IntegrityIssue['asset'];
+  resolution_id?: number;
+  url: string;
+  publicId?: string;
+  expectedSize?: number;
+  expectedContentType?: string;
+}
+
+interface RepairTarget {
+  folder: string;
+  filename: string;
+  generate: () => Promise<ProcessedImage>;
+  save: (upload: UploadResult, processed: ProcessedImage) => Promise<void>;
+}
+
+export class IntegrityScanService {
+  static readonly BATCH_SIZE = 20;
+
+  // Scans being processed by this server instance
+  private static running = new Set<number>();
+
+  // Start (or resume) a scan in the background
+  static start(scanId: number): void {
+    if (this.running.has(scanId)) return;
+
+    this.running.add(scanId);
+
+    this.run(scanId)
+      .catch(async (error) => {
+        console.error(`Integrity scan ${scanId} failed:`, error);
+        await IntegrityScanModel.update(scanId, {
+          status: IntegrityScanStatus.FAILED,
+          error: error.message || 'Scan failed',
+          completed_at: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => {
+        this.running.delete(scanId);
+      });
+  }
+
+  // Check if a scan is being processed by this server instance
+  static isRunning(scanId: number): boolean {
+    return this.running.has(scanId);
+  }
+
+  // Resume scans left in the running state by a crash or restart
+  static async resumeInterrupted(): Promise<void> {
+    const scans = await IntegrityScanModel.getByStatus(IntegrityScanStatus.RUNNING);
+
+    for (const scan of scans) {
+      console.info(`Resuming integrity scan ${scan.id} after wallpaper ${scan.last_wallpaper_id}`);
+      this.start(scan.id);
+    }
+  }
+
+  // Whether an issue can be fixed by regenerating the asset from the original
+  static isRepairable(issue: IntegrityIssue): boolean {
+    return issue.status === IntegrityIssueStatus.OPEN && issue.asset !== 'original';
+  }
+
+  // Regenerate a derived asset from the original and point the rows at the new files.
+  // The asset's format variants and its mirror copy are regenerated with it.
+  static async repair(issue: IntegrityIssue): Promise<void> {
+    const wallpaper = await WallpaperModel.findById(issue.wallpaper_id);
+    if (!wallpaper) {
+      throw new Error('Wallpaper not found');
+    }
+    if (issue.asset === 'original') {
+      throw new Error('The original image cannot be regenerated');
+    }
+
+    // Falls back to the mirror's copy when the primary provider lost the original
+    let original: Buffer;
+    try {
+      original = await ReplicaService.downloadOriginal(wallpaper);
+    } catch (error) {
+      throw new Error('Original image is unavailable, so the asset cannot be regenerated');
+    }
+
+    const target = await this.repairTarget(issue, wallpaper, original);
+    const storage = await StorageFactory.getServiceById(wallpaper.storage_provider_id);
+
+    const processed = await target.generate();
+    const upload = await storage.upload(processed.buffer, {
+      folder: target.folder,
+      filename: target.filename,
+    });
+    await target.save(upload, processed);
+
+    // Variants hold the same crop, so they are as suspect as the file itself
+    const variants =
+      issue.asset === 'resolution'
+        ? await WallpaperFormatModel.getByResolutionId(issue.resolution_id!)
+        : await WallpaperFormatModel.getByAsset(wallpaper.id, issue.asset);
+    for (const variant of variants) {
+      const encoded = await ImageProcessingService.resize(
+        original,
+        processed.width,
+        processed.height,
+        {
+          format: variant.format,
+          quality: ImageProcessingService.VARIANT_QUALITY[variant.format],
+          focus: wallpaper.focal_point,
+        }
+      );
+      const variantUpload = await storage.upload(encoded.buffer, {
+        folder: target.folder,
+        filename: `${target.filename}-${variant.format}`,
+        format: variant.format,
+      });
+      await WallpaperFormatModel.updateFile(variant.id, {
+        url: variantUpload.url,
+        public_id: variantUpload.publicId,
+        file_size: encoded.size,
+      });
+    }
+
+    await ReplicaService.mirrorUpload(wallpaper.id, wallpaper.storage_provider_id, [
+      {
+        asset: issue.asset,
+        resolution_id: issue.resolution_id,
+        buffer: processed.buffer,
+        folder: target.folder,
+        filename: target.filename,
+      },
+    ]);
+
+    await IntegrityScanModel.markRepaired(issue.id);
+  }
+
+  // Helper: How to regenerate a derived asset and which row points at it
+  private static async repairTarget(
+    issue: IntegrityIssue,
+    wallpaper: Wallpaper,
+    original: Buffer
+  ): Promise<RepairTarget> {
+    const focus = wallpaper.focal_point;
+    const revision = wallpaper.crop_revision || 0;
+
+    if (issue.asset === 'thumbnail') {
+      return {
+        folder: 'wallpapers/thumbnails',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-thumb`, revision),
+        generate: () =>
+          ImageProcessingService.generateThumbnail(original, undefined, undefined, focus),
+        save: (upload) =>
+          WallpaperModel.update(wallpaper.id, {
+            thumbnail_url: upload.url,
+            thumbnail_public_id: upload.publicId,
+          }),
+      };
+    }
+
+    if (issue.asset === 'medium') {
+      return {
+        folder: 'wallpapers/medium',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-medium`, revision),
+        generate: () => ImageProcessingService.generateMedium(original, undefined, undefined, focus),
+        save: (upload) =>
+          WallpaperModel.update(wallpaper.id, {
+            medium_url: upload.url,
+            medium_public_id: upload.publicId,
+          }),
+      };
+    }
+
+    const resolution = issue.resolution_id
+      ? await WallpaperResolutionModel.findById(issue.resolution_id)
+      : null;
+    if (!resolution) {
+      throw new Error('Resolution not found');
+    }
+    if (resolution.is_original) {
+      throw new Error('The original resolution cannot be regenerated');
+    }
+
+    return {
+      folder: 'wallpapers/resolutions',
+      filename: SlugUtil.versioned(
+        `${wallpaper.slug}-${resolution.resolution_name.toLowerCase().replace(/\s+/g, '-')}`,
+        revision
+      ),
+      generate: async () =>
+        ImageProcessingService.resize(original, resolution.width, resolution.height, {
+          ...(await ResolutionPresetService.encodingFor(resolution)),
+          focus,
+          animated: !!wallpaper.is_animated,
+        }),
+      save: (upload, processed) =>
+        WallpaperResolutionModel.updateFile(resolution.id, {
+          url: upload.url,
+          public_id: upload.publicId,
+          file_size: processed.size,
+        }),
+    };
+  }
+
+  // Walk active, ready wallpapers from the checkpoint onwards
+  private static async run(scanId: number): Promise<void> {
+    const scan = await IntegrityScanModel.findById(scanId);
+    if (!scan) return;
+
+    await IntegrityScanModel.update(scanId, {
+      status: IntegrityScanStatus.RUNNING,
+      total_wallpapers: scan.started_at
+        ? scan.total_wallpapers
+        : await IntegrityScanModel.countWallpapers(),
+      started_at: scan.started_at || new Date(),
+      error: '',
+    });
+
+    // One service per provider for the whole scan
+    const services = new Map<number, IStorageService>();
+
+    let lastId = scan.last_wallpaper_id;
+    let processed = scan.processed_wallpapers;
+    let issuesFound = scan.issues_found;
+
+    while (true) {
+      const batch = await IntegrityScanModel.getNextWallpapers(lastId, this.BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const wallpaper of batch) {
+        // Stop if an admin cancelled the scan
+        const current = await IntegrityScanModel.findById(scanId);
+        if (!current || current.status === IntegrityScanStatus.CANCELLED) {
+          return;
+        }
+
+        if (!services.has(wallpaper.storage_provider_id)) {
+          services.set(
+            wallpaper.storage_provider_id,
+            await StorageFactory.getServiceById(wallpaper.storage_provider_id)
+          );
+        }
+
+        issuesFound += await this.checkWallpaper(
+          scanId,
+          wallpaper,
+          services.get(wallpaper.storage_provider_id)!
+        );
+
+        processed++;
+        lastId = wallpaper.id;
+
+        await IntegrityScanModel.update(scanId, {
+          processed_wallpapers: processed,
+          issues_found: issuesFound,
+          last_wallpaper_id: lastId,
+        });
+      }
+    }
+
+    await IntegrityScanModel.update(scanId, {
+      status: IntegrityScanStatus.COMPLETED,
+      completed_at: new Date(),
+    });
+  }
+
+  // HEAD every asset of one wallpaper and record what's wrong with it
+  private static async checkWallpaper(
+    scanId: number,
+    wallpaper: RowDataPacket,
+    storage: IStorageService
+  ): Promise<number> {
+    // A resumed scan may have checked part of this wallpaper already
+    await IntegrityScanModel.clearIssues(scanId, wallpaper.id);
+
+    const assets = await this.collectAssets(wallpaper);
+    const heads = new Map<string, Promise<StorageObjectHead | null>>();
+    let issues = 0;
+
+    for (const asset of assets) {
+      const publicId = asset.publicId || storage.getPublicId(asset.url);
+      const base = {
+        scan_id: scanId,
+        wallpaper_id: wallpaper.id,
+        resolution_id: asset.resolution_id,
+        asset: asset.asset,
+        url: asset.url,
+        public_id: publicId || undefined,
+      };
+
+      if (!publicId) {
+        await IntegrityScanModel.saveIssue({
+          ...base,
+          issue: IntegrityIssueType.UNREACHABLE,
+          details: 'URL does not belong to the wallpaper storage provider',
+        });
+        issues++;
+        continue;
+      }
+
+      // The "Original" resolution points at the same object as the original
+      if (!heads.has(publicId)) heads.set(publicId, storage.head(publicId));
+
+      let head: StorageObjectHead | null;
+      try {
+        head = await heads.get(publicId)!;
+      } catch (error: any) {
+        await IntegrityScanModel.saveIssue({
+          ...base,
+          issue: IntegrityIssueType.UNREACHABLE,
+          details: error.message || 'HEAD request failed',
+        });
+        issues++;
+        continue;
+      }
+
+      // One issue per asset, most severe first
+      if (!head) {
+        await IntegrityScanModel.saveIssue({ ...base, issue: IntegrityIssueType.MISSING });
+        issues++;
+      } else if (
+        asset.expectedSize &&
+        head.size !== undefined &&
+        Number(asset.expectedSize) !== head.size
+      ) {
+        await IntegrityScanModel.saveIssue({
+          ...base,
+          issue: IntegrityIssueType.SIZE_MISMATCH,
+          expected_size: asset.expectedSize,
+          actual_size: head.size,
+        });
+        issues++;
+      } else if (
+        asset.expectedContentType &&
+        head.contentType &&
+        !MimeUtil.matches(asset.expectedContentType, head.contentType)
+      ) {
+        await IntegrityScanModel.saveIssue({
+          ...base,
+          issue: IntegrityIssueType.CONTENT_TYPE_MISMATCH,
+          expected_content_type: asset.expectedContentType,
+          actual_content_type: head.contentType,
+        });
+        issues++;
+      }
+    }
+
+    return issues;
+  }
+
+  // Helper: List the stored objects that belong to a wallpaper
+  private static async collectAssets(wallpaper: RowDataPacket): Promise<ScanAsset[]> {
+    // Derived files are generated as JPEG; resolutions of animated wallpapers as animated WebP
+    const derivedType = 'image/jpeg';
+    const originalType = MimeUtil.fromPath(wallpaper.original_url) || undefined;
+
+    const assets: ScanAsset[] = [
+      {
+        asset: 'original',
+        url: wallpaper.original_url,
+        publicId: wallpaper.original_public_id,
+        expectedContentType: originalType,
+      },
+      {
+        asset: 'thumbnail',
+        url: wallpaper.thumbnail_url,
+        publicId: wallpaper.thumbnail_public_id,
+        expectedContentType: derivedType,
+      },
+    ];
+
+    if (wallpaper.medium_url) {
+      assets.push({
+        asset: 'medium',
+        url: wallpaper.medium_url,
+        publicId: wallpaper.medium_public_id,
+        expectedContentType: derivedType,
+      });
+    }
+
+    const resolutions = await WallpaperResolutionModel.getByWallpaperId(wallpaper.id);
+    for (const resolution of resolutions) {
+      assets.push({
+        asset: 'resolution',
+        resolution_id: resolution.id,
+        url: resolution.url,
+        publicId: resolution.public_id,
+        expectedSize: resolution.file_size,
+        // Resolutions are JPEG or WebP depending on their preset and animation
+        expectedContentType: resolution.is_original
+          ? originalType
+          : MimeUtil.fromPath(resolution.url) || derivedType,
+      });
+    }
+
+    return assets;
+  }
+}
@@ -0,0 +1,314 @@
+import {
+  IStorageService,
+  SignedUpload,
+  StorageObject,
+  StorageObjectHead,
+  UploadResult,
+} from './IStorageService';
+import sharp from 'sharp';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { LocalStorageConfig, ResolutionPreset } from '../../types';
+import { MimeUtil } from '../../utils/mime.util';
+import { ResolutionPresetService } from '../ResolutionPresetService';
+
+export class LocalStorageService implements IStorageService {
+  // Folder inside the root for resized copies served by the media route
+  static readonly TRANSFORM_CACHE = '.transforms';
+
+  private rootPath: string;
+  private baseUrl: string;
+  private signingSecret: string | null;
+
+  constructor(config?: Partial<LocalStorageConfig>) {
+    this.rootPath = path.resolve(config?.root_path || process.env.LOCAL_STORAGE_PATH || 'uploads');
+    this.baseUrl = (
+      config?.base_url ||
+      process.env.LOCAL_STORAGE_BASE_URL ||
+      `http://localhost:${process.env.PORT || 5000}/media`
+    ).replace(/\/+$/, '');
+    // A key of its own, not shared with auth tokens. Without one, signed upload URLs are
+    // refused rather than signed with a guessable key.
+    this.signingSecret = process.env.LOCAL_STORAGE_SIGNING_SECRET || null;
+  }
+
+  // Resolve a public ID to an absolute path inside the storage root
+  resolvePath(publicId: string): string {
+    const filePath = path.resolve(this.rootPath, publicId);
+
+    if (filePath !== this.rootPath && !filePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error('Invalid storage path');
+    }
+
+    return filePath;
+  }
+
+  async upload(
+    file: Buffer,
+    options: { folder?: string; filename?: string; format?: string }
+  ): Promise<UploadResult> {
+    // Get image metadata
+    const metadata = await sharp(file).metadata();
+    const format = options.format || metadata.format || 'jpeg';
+
+    const filename = options.filename || crypto.randomBytes(16).toString('hex');
+    const folder = options.folder || 'wallpapers';
+    const key = `${folder}/${filename}.${format === 'jpeg' ? 'jpg' : format}`;
+
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file);
+
+    return {
+      url: this.getUrl(key),
+      publicId: key,
+      format,
+      width: metadata.width,
+      height: metadata.height,
+      size: file.length,
+    };
+  }
+
+  // Where a resized copy of a stored file is cached
+  transformCachePath(publicId: string, variant: string): string {
+    return this.resolvePath(`${LocalStorageService.TRANSFORM_CACHE}/${publicId}/${variant}`);
+  }
+
+  async delete(publicId: string): Promise<void> {
+    await fs.rm(this.resolvePath(`${LocalStorageService.TRANSFORM_CACHE}/${publicId}`), {
+      recursive: true,
+      force: true,
+    });
+
+    try {
+      await fs.unlink(this.resolvePath(publicId));
+    } catch (error: any) {
+      // Already gone
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async download(publicId: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(publicId));
+  }
+
+  async head(publicId: string): Promise<StorageObjectHead | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(publicId));
+      if (!stats.isFile()) return null;
+
+      return {
+        size: stats.size,
+        contentType: MimeUtil.fromPath(publicId) || undefined,
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getSignedUploadUrl(
+    publicId: string,
+    options: { contentType: string; expiresIn?: number; maxSize?: number }
+  ): Promise<SignedUpload> {
+    if (!this.signingSecret) {
+      throw new Error('Direct uploads to local storage need LOCAL_STORAGE_SIGNING_SECRET');
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn || 3600);
+    const maxSize = options.maxSize || 0;
+
+    const params = new URLSearchParams({
+      expires: expires.toString(),
+      max_size: maxSize.toString(),
+      signature: this.sign(publicId, expires, maxSize),
+    });
+
+    return {
+      url: `${this.getUrl(publicId)}?${params.toString()}`,
+      method: 'PUT',
+      headers: { 'Content-Type': options.contentType },
+    };
+  }
+
+  // Check a signed upload URL produced by getSignedUploadUrl
+  verifyUploadSignature(
+    publicId: string,
+    expires: number,
+    maxSize: number,
+    signature: string
+  ): boolean {
+    if (!this.signingSecret) return false;
+    if (!expires || expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(publicId, expires, maxSize));
+    const given = Buffer.from(signature || '');
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  // Write a request body to storage, aborting once it exceeds maxSize
+  async writeStream(publicId: string, source: Readable, maxSize: number = 0): Promise<number> {
+    const filePath = this.resolvePath(publicId);
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.part`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    let received = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        received += chunk.length;
+        if (maxSize && received > maxSize) {
+          callback(
+            Object.assign(new Error(`File size exceeds maximum of ${maxSize} bytes`), {
+              code: 'LIMIT_FILE_SIZE',
+            })
+          );
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(source, limiter, createWriteStream(tempPath));
+      await fs.rename(tempPath, filePath);
+      return received;
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  getUrl(
+    publicId: string,
+    options?: {
+      width?: number;
+      height?: number;
+      quality?: number;
+      format?: string;
+    }
+  ): string {
+    // Transformations are applied on demand by the media route
+    const params = new URLSearchParams();
+
+    if (options?.width) params.set('w', options.width.toString());
+    if (options?.height) params.set('h', options.height.toString());
+    if (options?.quality) params.set('q', options.quality.toString());
+    if (options?.format) params.set('format', options.format);
+
+    const query = params.toString();
+    const encodedId = publicId.split('/').map(encodeURIComponent).join('/');
+
+    return `${this.baseUrl}/${encodedId}${query ? `?${query}` : ''}`;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const stats = await fs.stat(entryPath);
+          objects.push({
+            publicId: path.relative(this.rootPath, entryPath).split(path.sep).join('/'),
+            size: stats.size,
+            lastModified: stats.mtime,
+          });
+        }
+      }
+    };
+
+    await walk(this.resolvePath(prefix));
+    return objects;
+  }
+
+  getPublicId(url: string): string | null {
+    if (!url.startsWith(`${this.baseUrl}/`)) return null;
+
+    return url
+      .slice(this.baseUrl.length + 1)
+      .split('?')[0]
+      .split('/')
+      .map(decodeURIComponent)
+      .join('/');
+  }
+
+  // Helper: HMAC over the upload parameters
+  private sign(publicId: string, expires: number, maxSize: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret!)
+      .update(`${publicId}:${expires}:${maxSize}`)
+      .digest('hex');
+  }
+
+  async generateResolutions(
+    file: Buffer,
+    options: { folder?: string; filename?: string }
+  ): Promise<UploadResult[]> {
+    // The original, then every active preset
+    const presets = await ResolutionPresetService.getActive();
+    const resolutions: {
+      name: string;
+      width: number | null;
+      height: number | null;
+      format?: ResolutionPreset['format'];
+      quality?: number;
+    }[] = [
+      { name: 'original', width: null, height: null },
+      ...presets.map((preset) => ({
+        name: preset.name.toLowerCase().replace(/\s+/g, '-'),
+        width: preset.width,
+        height: preset.height,
+        format: preset.format,
+        quality: preset.quality,
+      })),
+    ];
+
+    const baseName = options.filename || crypto.randomBytes(16).toString('hex');
+    const results: UploadResult[] = [];
+
+    for (const res of resolutions) {
+      try {
+        let processedBuffer = file;
+
+        if (res.width && res.height) {
+          // Resize image
+          processedBuffer = await sharp(file)
+            .resize(res.width, res.height, {
+              fit: 'cover',
+              position: 'center',
+            })
+            .toFormat(res.format || 'jpeg', { quality: res.quality })
+            .toBuffer();
+        }
+
+        const result = await this.upload(processedBuffer, {
+          folder: options.folder,
+          filename: `${baseName}-${res.name}`,
+          format: res.format,
+        });
+
+        results.push(result);
+      } catch (error) {
+        console.error(`Failed to generate ${res.name} resolution:`, error);
+      }
+    }
+
+    return results;
+  }
+}
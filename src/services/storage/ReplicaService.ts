@@ -0,0 +1,304 @@
+import { RowDataPacket } from 'mysql2';
+import { ActiveStorageProvider, StorageFactory } from './StorageFactory';
+import { IStorageService, UploadResult } from './IStorageService';
+import { WallpaperReplicaModel } from '../../models/WallpaperReplica.model';
+import { WallpaperResolutionModel } from '../../models/WallpaperResolution.model';
+import { SlugUtil } from '../../utils/slug.util';
+import { ReplicaReconciliation, Wallpaper, WallpaperReplica } from '../../types';
+
+export interface ReplicaFile {
+  asset: WallpaperReplica['asset'];
+  resolution_id?: number;
+  buffer: Buffer;
+  folder: string;
+  filename: string;
+}
+
+interface ReplicaSource {
+  asset: WallpaperReplica['asset'];
+  resolution_id?: number;
+  url: string;
+  publicId?: string;
+  folder: string;
+  filename: string;
+}
+
+export class ReplicaService {
+  static readonly BATCH_SIZE = 20;
+
+  // Progress of the latest reconciliation run by this server instance
+  private static reconciliation: ReplicaReconciliation | null = null;
+
+  // Copy the files of a new wallpaper to the mirror provider.
+  // Failures only get logged; the next reconciliation picks up what's missing.
+  static async mirrorUpload(
+    wallpaperId: number,
+    primaryProviderId: number,
+    files: ReplicaFile[]
+  ): Promise<void> {
+    let mirror: ActiveStorageProvider | null;
+    try {
+      mirror = await StorageFactory.getMirrorProvider();
+    } catch (error) {
+      console.error('Failed to load mirror storage provider:', error);
+      return;
+    }
+    if (!mirror || mirror.id === primaryProviderId) return;
+
+    // The "Original" resolution shares its buffer (and stored file) with the original
+    const uploads = new Map<Buffer, UploadResult>();
+
+    for (const file of files) {
+      try {
+        let upload = uploads.get(file.buffer);
+        if (!upload) {
+          upload = await mirror.service.upload(file.buffer, {
+            folder: file.folder,
+            filename: file.filename,
+          });
+          uploads.set(file.buffer, upload);
+        }
+
+        await WallpaperReplicaModel.save({
+          wallpaper_id: wallpaperId,
+          resolution_id: file.resolution_id,
+          asset: file.asset,
+          storage_provider_id: mirror.id,
+          url: upload.url,
+          public_id: upload.publicId,
+        });
+      } catch (error) {
+        console.error(`Failed to mirror ${file.asset} of wallpaper ${wallpaperId}:`, error);
+      }
+    }
+  }
+
+  // Point wallpapers whose provider is cooling down at their replicas instead
+  static async withFallback<T extends Wallpaper>(wallpapers: T[]): Promise<T[]> {
+    const affected = wallpapers.filter((w) => !StorageFactory.isHealthy(w.storage_provider_id));
+    if (affected.length === 0) return wallpapers;
+
+    const replicas = await WallpaperReplicaModel.getByWallpaperIds(affected.map((w) => w.id));
+
+    for (const replica of replicas) {
+      if (!StorageFactory.isHealthy(replica.storage_provider_id)) continue;
+
+      const wallpaper = affected.find((w) => w.id === replica.wallpaper_id);
+      if (!wallpaper) continue;
+
+      if (replica.asset === 'original') {
+        wallpaper.original_url = replica.url;
+      } else if (replica.asset === 'thumbnail') {
+        wallpaper.thumbnail_url = replica.url;
+      } else if (replica.asset === 'medium') {
+        wallpaper.medium_url = replica.url;
+      } else {
+        const resolution = wallpaper.resolutions?.find((r) => r.id === replica.resolution_id);
+        if (resolution) resolution.url = replica.url;
+      }
+    }
+
+    return wallpapers;
+  }
+
+  // Read a wallpaper's original back, from the mirror if the primary provider fails
+  static async downloadOriginal(wallpaper: Wallpaper): Promise<Buffer> {
+    const storage = await StorageFactory.getServiceById(wallpaper.storage_provider_id);
+    const publicId = wallpaper.original_public_id || storage.getPublicId(wallpaper.original_url);
+
+    try {
+      if (!publicId) throw new Error('Original URL does not belong to the storage provider');
+      return await storage.download(publicId);
+    } catch (error) {
+      const replica = (await WallpaperReplicaModel.getByWallpaperId(wallpaper.id)).find(
+        (r) => r.asset === 'original'
+      );
+      if (!replica) throw error;
+
+      const mirror = await StorageFactory.getServiceById(replica.storage_provider_id);
+      return mirror.download(replica.public_id || mirror.getPublicId(replica.url)!);
+    }
+  }
+
+  // Get progress of the latest reconciliation
+  static getReconciliation(): ReplicaReconciliation | null {
+    return this.reconciliation;
+  }
+
+  // Start copying missing replicas of older wallpapers in the background.
+  // Returns null if a reconciliation is already running.
+  static async startReconciliation(
+    mirror: ActiveStorageProvider
+  ): Promise<ReplicaReconciliation | null> {
+    if (this.reconciliation?.status === 'running') return null;
+
+    const reconciliation: ReplicaReconciliation = {
+      status: 'running',
+      storage_provider_id: mirror.id,
+      total_wallpapers: await WallpaperReplicaModel.countWallpapers(mirror.id),
+      processed_wallpapers: 0,
+      replicated_assets: 0,
+      failed_assets: 0,
+      last_wallpaper_id: 0,
+      started_at: new Date(),
+    };
+    this.reconciliation = reconciliation;
+
+    this.reconcile(reconciliation, mirror)
+      .then(() => {
+        reconciliation.status = 'completed';
+      })
+      .catch((error) => {
+        console.error('Replica reconciliation failed:', error);
+        reconciliation.status = 'failed';
+        reconciliation.error = error.message || 'Reconciliation failed';
+      })
+      .finally(() => {
+        reconciliation.completed_at = new Date();
+      });
+
+    return reconciliation;
+  }
+
+  // Walk every wallpaper not stored on the mirror itself
+  private static async reconcile(
+    reconciliation: ReplicaReconciliation,
+    mirror: ActiveStorageProvider
+  ): Promise<void> {
+    // One service per source provider for the whole run
+    const services = new Map<number, IStorageService>();
+
+    while (true) {
+      const batch = await WallpaperReplicaModel.getNextWallpapers(
+        reconciliation.last_wallpaper_id,
+        mirror.id,
+        this.BATCH_SIZE
+      );
+      if (batch.length === 0) break;
+
+      for (const wallpaper of batch) {
+        if (!services.has(wallpaper.storage_provider_id)) {
+          services.set(
+            wallpaper.storage_provider_id,
+            await StorageFactory.getServiceById(wallpaper.storage_provider_id)
+          );
+        }
+
+        const result = await this.reconcileWallpaper(
+          wallpaper,
+          services.get(wallpaper.storage_provider_id)!,
+          mirror
+        );
+
+        reconciliation.replicated_assets += result.replicated;
+        reconciliation.failed_assets += result.failed;
+        reconciliation.processed_wallpapers++;
+        reconciliation.last_wallpaper_id = wallpaper.id;
+      }
+    }
+  }
+
+  // Copy the assets of one wallpaper that have no replica on the mirror yet
+  private static async reconcileWallpaper(
+    wallpaper: RowDataPacket,
+    storage: IStorageService,
+    mirror: ActiveStorageProvider
+  ): Promise<{ replicated: number; failed: number }> {
+    const existing = new Set(
+      (await WallpaperReplicaModel.getByWallpaperId(wallpaper.id, mirror.id)).map(
+        (replica) => `${replica.asset}:${replica.resolution_id || 0}`
+      )
+    );
+
+    const sources = await this.collectSources(wallpaper);
+    const uploads = new Map<string, UploadResult>();
+    let replicated = 0;
+    let failed = 0;
+
+    for (const source of sources) {
+      if (existing.has(`${source.asset}:${source.resolution_id || 0}`)) continue;
+
+      try {
+        const publicId = source.publicId || storage.getPublicId(source.url);
+        if (!publicId) {
+          throw new Error('URL does not belong to the wallpaper storage provider');
+        }
+
+        // The "Original" resolution points at the same object as the original
+        let upload = uploads.get(publicId);
+        if (!upload) {
+          const buffer = await storage.download(publicId);
+          upload = await mirror.service.upload(buffer, {
+            folder: source.folder,
+            filename: source.filename,
+          });
+          uploads.set(publicId, upload);
+        }
+
+        await WallpaperReplicaModel.save({
+          wallpaper_id: wallpaper.id,
+          resolution_id: source.resolution_id,
+          asset: source.asset,
+          storage_provider_id: mirror.id,
+          url: upload.url,
+          public_id: upload.publicId,
+        });
+        replicated++;
+      } catch (error) {
+        console.error(`Failed to replicate ${source.asset} of wallpaper ${wallpaper.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { replicated, failed };
+  }
+
+  // Helper: Stored files of a wallpaper and where their copies go on the mirror
+  private static async collectSources(wallpaper: RowDataPacket): Promise<ReplicaSource[]> {
+    const sources: ReplicaSource[] = [
+      {
+        asset: 'original',
+        url: wallpaper.original_url,
+        publicId: wallpaper.original_public_id,
+        folder: 'wallpapers/original',
+        filename: wallpaper.slug,
+      },
+      {
+        asset: 'thumbnail',
+        url: wallpaper.thumbnail_url,
+        publicId: wallpaper.thumbnail_public_id,
+        folder: 'wallpapers/thumbnails',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-thumb`, wallpaper.crop_revision || 0),
+      },
+    ];
+
+    if (wallpaper.medium_url) {
+      sources.push({
+        asset: 'medium',
+        url: wallpaper.medium_url,
+        publicId: wallpaper.medium_public_id,
+        folder: 'wallpapers/medium',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-medium`, wallpaper.crop_revision || 0),
+      });
+    }
+
+    const resolutions = await WallpaperResolutionModel.getByWallpaperId(wallpaper.id);
+    for (const resolution of resolutions) {
+      sources.push({
+        asset: 'resolution',
+        resolution_id: resolution.id,
+        url: resolution.url,
+        publicId: resolution.public_id,
+        folder: resolution.is_original ? 'wallpapers/original' : 'wallpapers/resolutions',
+        filename: resolution.is_original
+          ? wallpaper.slug
+          : SlugUtil.versioned(
+              `${wallpaper.slug}-${resolution.resolution_name.toLowerCase().replace(/\s+/g, '-')}`,
+              wallpaper.crop_revision || 0
+            ),
+      });
+    }
+
+    return sources;
+  }
+}
@@ -1,22 +1,38 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { IStorageService, UploadResult } from './IStorageService';
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  GetObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  IStorageService,
+  SignedUpload,
+  StorageObject,
+  StorageObjectHead,
+  UploadResult,
+} from './IStorageService';
+import { ResolutionPreset, S3Config } from '../../types';
 import sharp from 'sharp';
 import crypto from 'crypto';
+import { ResolutionPresetService } from '../ResolutionPresetService';
 
 export class S3Service implements IStorageService {
   private s3Client: S3Client;
   private bucketName: string;
   private region: string;
 
-  constructor() {
-    this.bucketName = process.env.AWS_S3_BUCKET || '';
-    this.region = process.env.AWS_REGION || 'us-east-1';
+  constructor(config?: Partial<S3Config>) {
+    this.bucketName = config?.bucket_name || process.env.AWS_S3_BUCKET || '';
+    this.region = config?.region || process.env.AWS_REGION || 'us-east-1';
 
     this.s3Client = new S3Client({
       region: this.region,
       credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+        accessKeyId: config?.access_key_id || process.env.AWS_ACCESS_KEY_ID || '',
+        secretAccessKey: config?.secret_access_key || process.env.AWS_SECRET_ACCESS_KEY || '',
       },
     });
   }
@@ -76,17 +92,133 @@ export class S3Service implements IStorageService {
     return `https://${this.bucketName}.s3.${this.region}.amazonaws.com/${publicId}`;
   }
 
+  async download(publicId: string): Promise<Buffer> {
+    const response = await this.s3Client.send(
+      new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: publicId,
+      })
+    );
+
+    if (!response.Body) {
+      throw new Error(`Object ${publicId} has no content`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async head(publicId: string): Promise<StorageObjectHead | null> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucketName,
+          Key: publicId,
+        })
+      );
+
+      return {
+        size: response.ContentLength,
+        contentType: response.ContentType,
+      };
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSignedUploadUrl(
+    publicId: string,
+    options: { contentType: string; expiresIn?: number; maxSize?: number }
+  ): Promise<SignedUpload> {
+    // Presigned PUTs can't enforce a size limit; it is checked when the upload is finalized
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: publicId,
+      ContentType: options.contentType,
+    });
+
+    return {
+      url: await getSignedUrl(this.s3Client, command, {
+        expiresIn: options.expiresIn || 3600,
+      }),
+      method: 'PUT',
+      headers: { 'Content-Type': options.contentType },
+    };
+  }
+
+  async getSignedDownloadUrl(
+    publicId: string,
+    options: { filename: string; expiresIn?: number }
+  ): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: publicId,
+      ResponseContentDisposition: `attachment; filename="${options.filename.replace(/"/g, '')}"`,
+    });
+
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn: options.expiresIn || 300,
+    });
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          publicId: object.Key,
+          size: object.Size,
+          lastModified: object.LastModified,
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  getPublicId(url: string): string | null {
+    const baseUrl = `https://${this.bucketName}.s3.${this.region}.amazonaws.com/`;
+    if (!url.startsWith(baseUrl)) return null;
+
+    return decodeURIComponent(url.slice(baseUrl.length).split('?')[0]);
+  }
+
   async generateResolutions(
     file: Buffer,
     options: { folder?: string; filename?: string }
   ): Promise<UploadResult[]> {
-    const resolutions = [
+    // The original, then every active preset
+    const presets = await ResolutionPresetService.getActive();
+    const resolutions: {
+      name: string;
+      width: number | null;
+      height: number | null;
+      format?: ResolutionPreset['format'];
+      quality?: number;
+    }[] = [
       { name: 'original', width: null, height: null },
-      { name: '1080p', width: 1920, height: 1080 },
-      { name: '1440p', width: 2560, height: 1440 },
-      { name: '4K', width: 3840, height: 2160 },
-      { name: 'mobile', width: 1080, height: 1920 },
-      { name: 'tablet', width: 1536, height: 2048 },
+      ...presets.map((preset) => ({
+        name: preset.name.toLowerCase().replace(/\s+/g, '-'),
+        width: preset.width,
+        height: preset.height,
+        format: preset.format,
+        quality: preset.quality,
+      })),
     ];
 
     const results: UploadResult[] = [];
@@ -104,7 +236,7 @@ export class S3Service implements IStorageService {
               fit: 'cover',
               position: 'center',
             })
-            .jpeg({ quality: 90 })
+            .toFormat(res.format || 'jpeg', { quality: res.quality })
             .toBuffer();
 
           const metadata = await sharp(processedBuffer).metadata();
@@ -124,7 +256,7 @@ export class S3Service implements IStorageService {
         const result = await this.upload(processedBuffer, {
           folder: options.folder,
           filename,
-          format: 'jpeg',
+          format: res.format,
         });
 
         results.push({
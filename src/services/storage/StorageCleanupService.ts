@@ -0,0 +1,249 @@
+import { IStorageService } from './IStorageService';
+import { StorageFactory } from './StorageFactory';
+import { WallpaperModel } from '../../models/Wallpaper.model';
+import { WallpaperReplicaModel } from '../../models/WallpaperReplica.model';
+import { WallpaperFormatModel } from '../../models/WallpaperFormat.model';
+import { WallpaperRenderModel } from '../../models/WallpaperRender.model';
+import { Wallpaper, WallpaperFormat } from '../../types';
+
+export interface PurgeResult {
+  wallpaper_id: number;
+  deleted_objects: number;
+  failed_objects: string[];
+  purged: boolean;
+}
+
+// A stored file of a wallpaper, on the provider that holds it
+export interface StoredFile {
+  storage_provider_id: number;
+  url?: string;
+  public_id?: string | null;
+}
+
+export interface SweepResult {
+  storage_provider_id: number;
+  dry_run: boolean;
+  scanned: number;
+  referenced: number;
+  skipped_recent: number;
+  orphaned: string[];
+  deleted: number;
+  failed: { publicId: string; error: string }[];
+}
+
+export class StorageCleanupService {
+  // Folder every wallpaper asset is uploaded under
+  static readonly SWEEP_PREFIX = 'wallpapers/';
+
+  // Delete the stored files (with replicas and renders) of a soft-deleted wallpaper, then the row
+  static async purgeWallpaper(wallpaper: Wallpaper): Promise<PurgeResult> {
+    const storage = await StorageFactory.getServiceById(wallpaper.storage_provider_id);
+
+    // Public IDs to delete per provider
+    const targets = new Map<number, { storage: IStorageService; publicIds: Set<string> }>();
+    const formats = await WallpaperFormatModel.getByWallpaperId(wallpaper.id);
+    targets.set(wallpaper.storage_provider_id, {
+      storage,
+      publicIds: new Set(this.collectPublicIds({ ...wallpaper, formats }, storage)),
+    });
+
+    // Replicas and cached renders can live on other providers
+    const copies = [
+      ...(await WallpaperReplicaModel.getByWallpaperId(wallpaper.id)),
+      ...(await WallpaperRenderModel.getByWallpaperId(wallpaper.id)),
+    ];
+    for (const copy of copies) {
+      if (!targets.has(copy.storage_provider_id)) {
+        targets.set(copy.storage_provider_id, {
+          storage: await StorageFactory.getServiceById(copy.storage_provider_id),
+          publicIds: new Set(),
+        });
+      }
+
+      const target = targets.get(copy.storage_provider_id)!;
+      const publicId = copy.public_id || target.storage.getPublicId(copy.url);
+      if (publicId) target.publicIds.add(publicId);
+    }
+
+    let total = 0;
+    const failed: string[] = [];
+    for (const target of targets.values()) {
+      for (const publicId of target.publicIds) {
+        total++;
+        try {
+          await target.storage.delete(publicId);
+        } catch (error) {
+          console.error(`Failed to delete ${publicId}:`, error);
+          failed.push(publicId);
+        }
+      }
+    }
+
+    // Keep the row so a later purge can retry the files it still points to
+    if (failed.length === 0) {
+      await WallpaperModel.hardDelete(wallpaper.id);
+    }
+
+    return {
+      wallpaper_id: wallpaper.id,
+      deleted_objects: total - failed.length,
+      failed_objects: failed,
+      purged: failed.length === 0,
+    };
+  }
+
+  // Delete files that a wallpaper's rows stopped pointing to once its derived files were
+  // regenerated. Files still referenced are kept; failed deletes are left for the sweep.
+  static async deleteSuperseded(wallpaperId: number, files: StoredFile[]): Promise<void> {
+    const wallpaper = await WallpaperModel.findById(wallpaperId);
+    if (!wallpaper) return; // deleted meanwhile: the purge removes everything
+
+    // Compared by storage key, since a file rewritten in place can get a new URL (versioned CDNs)
+    const keyOf = async (file: StoredFile) => {
+      const storage = await StorageFactory.getServiceById(file.storage_provider_id);
+      const publicId = file.public_id || (file.url ? storage.getPublicId(file.url) : null);
+      return publicId ? `${file.storage_provider_id}:${publicId}` : null;
+    };
+
+    const providerId = wallpaper.storage_provider_id;
+    const current: StoredFile[] = [
+      ...(['original', 'thumbnail', 'medium'] as const).map((asset) => ({
+        storage_provider_id: providerId,
+        url: wallpaper[`${asset}_url`],
+        public_id: wallpaper[`${asset}_public_id`],
+      })),
+      ...(wallpaper.resolutions || []).map((resolution) => ({
+        ...resolution,
+        storage_provider_id: providerId,
+      })),
+      ...(await WallpaperFormatModel.getByWallpaperId(wallpaperId)).map((format) => ({
+        ...format,
+        storage_provider_id: providerId,
+      })),
+      ...(await WallpaperReplicaModel.getByWallpaperId(wallpaperId)),
+    ];
+
+    const referenced = new Set<string | null>();
+    for (const file of current) {
+      referenced.add(await keyOf(file).catch(() => null));
+    }
+
+    for (const file of files) {
+      try {
+        const key = await keyOf(file);
+        if (!key || referenced.has(key)) continue;
+
+        const storage = await StorageFactory.getServiceById(file.storage_provider_id);
+        await storage.delete(key.slice(key.indexOf(':') + 1));
+      } catch (error) {
+        console.error(`Failed to delete a superseded file of wallpaper ${wallpaperId}:`, error);
+      }
+    }
+  }
+
+  // Purge every wallpaper soft-deleted at least `olderThanDays` ago
+  static async purgeDeleted(olderThanDays: number = 0): Promise<PurgeResult[]> {
+    const wallpapers = await WallpaperModel.getDeleted(olderThanDays);
+    const results: PurgeResult[] = [];
+
+    for (const row of wallpapers) {
+      const wallpaper = await WallpaperModel.findDeletedById(row.id);
+      if (!wallpaper) continue;
+
+      results.push(await this.purgeWallpaper(wallpaper));
+    }
+
+    return results;
+  }
+
+  // Remove provider objects that no wallpaper, resolution, replica or render row references
+  static async sweep(
+    storageProviderId: number,
+    options: { dryRun?: boolean; minAgeHours?: number } = {}
+  ): Promise<SweepResult> {
+    const dryRun = options.dryRun !== false;
+    const minAgeHours = options.minAgeHours ?? 24;
+
+    const storage = await StorageFactory.getServiceById(storageProviderId);
+
+    // URLs this provider can't resolve don't live on it, so they protect nothing
+    const referenced = new Set<string>();
+    const references = [
+      ...(await WallpaperModel.getStorageReferences(storageProviderId)),
+      ...(await WallpaperReplicaModel.getStorageReferences(storageProviderId)),
+      ...(await WallpaperRenderModel.getStorageReferences(storageProviderId)),
+    ];
+    for (const ref of references) {
+      const publicId = ref.public_id || storage.getPublicId(ref.url);
+      if (publicId) referenced.add(publicId);
+    }
+
+    const objects = await storage.list(this.SWEEP_PREFIX);
+    const cutoff = Date.now() - minAgeHours * 60 * 60 * 1000;
+
+    const result: SweepResult = {
+      storage_provider_id: storageProviderId,
+      dry_run: dryRun,
+      scanned: objects.length,
+      referenced: 0,
+      skipped_recent: 0,
+      orphaned: [],
+      deleted: 0,
+      failed: [],
+    };
+
+    for (const object of objects) {
+      if (referenced.has(object.publicId)) {
+        result.referenced++;
+        continue;
+      }
+
+      // Uploads in flight aren't referenced yet
+      if (!object.lastModified || object.lastModified.getTime() > cutoff) {
+        result.skipped_recent++;
+        continue;
+      }
+
+      result.orphaned.push(object.publicId);
+      if (dryRun) continue;
+
+      try {
+        await storage.delete(object.publicId);
+        result.deleted++;
+      } catch (error: any) {
+        result.failed.push({
+          publicId: object.publicId,
+          error: error.message || 'Delete failed',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Helper: Public IDs of every file a wallpaper points to
+  private static collectPublicIds(
+    wallpaper: Wallpaper & { formats: WallpaperFormat[] },
+    storage: IStorageService
+  ): string[] {
+    const candidates: [string | undefined, string | undefined][] = [
+      [wallpaper.original_public_id, wallpaper.original_url],
+      [wallpaper.thumbnail_public_id, wallpaper.thumbnail_url],
+      [wallpaper.medium_public_id, wallpaper.medium_url],
+      ...(wallpaper.resolutions || []).map(
+        (resolution): [string | undefined, string | undefined] => [resolution.public_id, resolution.url]
+      ),
+      ...wallpaper.formats.map(
+        (format): [string | undefined, string | undefined] => [format.public_id, format.url]
+      ),
+    ];
+
+    const publicIds = new Set<string>();
+    for (const [publicId, url] of candidates) {
+      const resolved = publicId || (url ? storage.getPublicId(url) : null);
+      if (resolved) publicIds.add(resolved);
+    }
+
+    return [...publicIds];
+  }
+}
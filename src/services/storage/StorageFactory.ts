@@ -1,11 +1,38 @@
 import { IStorageService } from './IStorageService';
 import { CloudinaryService } from './CloudinaryService';
 import { S3Service } from './S3Service';
-import pool from '../../config/database';
-import { RowDataPacket } from 'mysql2';
+import { LocalStorageService } from './LocalStorageService';
+import { StorageProviderModel } from '../../models/StorageProvider.model';
+import {
+  CloudinaryConfig,
+  LocalStorageConfig,
+  S3Config,
+  StorageProviderConfig,
+} from '../../types';
+
+export interface ActiveStorageProvider {
+  id: number;
+  name: string;
+  service: IStorageService;
+}
+
+export interface StorageProviderHealth {
+  providerId: number;
+  consecutiveFailures: number;
+  unhealthyUntil: Date | null;
+}
 
 export class StorageFactory {
   private static instance: IStorageService | null = null;
+  private static providers: ActiveStorageProvider[] | null = null;
+  private static mirror: ActiveStorageProvider | null | undefined;
+  private static local: LocalStorageService[] | null = null;
+  private static health = new Map<number, { failures: number; unhealthyUntil: number }>();
+
+  // Failures in a row before a provider is taken out of rotation
+  static readonly FAILURE_THRESHOLD = parseInt(process.env.STORAGE_FAILURE_THRESHOLD || '3');
+  // How long an unhealthy provider is skipped (ms)
+  static readonly COOLDOWN_MS = parseInt(process.env.STORAGE_COOLDOWN_MS || '300000');
 
   // Get active storage service from database
   static async getActiveService(): Promise<IStorageService> {
@@ -13,31 +40,93 @@ export class StorageFactory {
       return this.instance;
     }
 
-    try {
-      // Get active storage provider from database
-      const [rows] = await pool.query<RowDataPacket[]>(
-        'SELECT provider_name FROM storage_providers WHERE is_active = 1 ORDER BY priority DESC LIMIT 1'
-      );
+    const providers = await this.getActiveProviders();
 
-      const providerName = rows.length > 0 ? rows[0].provider_name : 'cloudinary';
+    if (providers.length > 0) {
+      // Prefer the highest-priority provider that isn't cooling down
+      const provider = providers.find((p) => this.isHealthy(p.id)) || providers[0];
+      return provider.service;
+    }
 
-      this.instance = this.createService(providerName);
-      return this.instance;
-    } catch (error) {
-      console.error('Failed to get storage provider from database:', error);
-      // Fallback to cloudinary
-      this.instance = new CloudinaryService();
-      return this.instance;
+    // No provider configured in the database: use the env Cloudinary account
+    this.instance = new CloudinaryService();
+    return this.instance;
+  }
+
+  // Get active storage providers ordered by priority (highest first)
+  static async getActiveProviders(): Promise<ActiveStorageProvider[]> {
+    if (this.providers) {
+      return this.providers;
+    }
+
+    let unreadable = 0;
+    const rows = await StorageProviderModel.getActive((providerId) => {
+      unreadable++;
+      this.markUnhealthy(providerId);
+    });
+
+    // With every active provider unreadable, fail rather than fall back to the env account,
+    // which would send files somewhere nobody configured
+    if (rows.length === 0 && unreadable > 0) {
+      throw new Error('No active storage provider could be decrypted');
+    }
+
+    this.providers = rows.map((row) => ({
+      id: row.id,
+      name: row.provider_name,
+      service: this.createService(row.provider_name, row.config),
+    }));
+    return this.providers;
+  }
+
+  // Get the provider uploads are mirrored to, or null when mirroring is off
+  static async getMirrorProvider(): Promise<ActiveStorageProvider | null> {
+    if (this.mirror !== undefined) {
+      return this.mirror;
+    }
+
+    const row = await StorageProviderModel.getMirror();
+
+    this.mirror = row
+      ? {
+          id: row.id,
+          name: row.provider_name,
+          service: this.createService(row.provider_name, row.config),
+        }
+      : null;
+    return this.mirror;
+  }
+
+  // Get the local storage providers (active or not, they may still hold files),
+  // or one built from env vars when none is configured
+  static async getLocalServices(): Promise<LocalStorageService[]> {
+    if (this.local) {
+      return this.local;
     }
+
+    const rows = (await StorageProviderModel.getAll((id) => this.markUnhealthy(id))).filter(
+      (row) => row.provider_name.toLowerCase() === 'local'
+    );
+
+    this.local =
+      rows.length > 0
+        ? rows.map((row) => new LocalStorageService(row.config as LocalStorageConfig))
+        : [new LocalStorageService()];
+    return this.local;
   }
 
-  // Create service by name
-  static createService(provider: string): IStorageService {
+  // Create service by name; empty config values fall back to env vars
+  static createService(
+    provider: string,
+    config?: StorageProviderConfig['config'] | null
+  ): IStorageService {
     switch (provider.toLowerCase()) {
       case 'cloudinary':
-        return new CloudinaryService();
+        return new CloudinaryService(config as CloudinaryConfig);
       case 's3':
-        return new S3Service();
+        return new S3Service(config as S3Config);
+      case 'local':
+        return new LocalStorageService(config as LocalStorageConfig);
       default:
         console.warn(`Unknown storage provider: ${provider}, falling back to Cloudinary`);
         return new CloudinaryService();
@@ -47,19 +136,62 @@ export class StorageFactory {
   // Reset instance (useful for switching providers)
   static reset(): void {
     this.instance = null;
+    this.providers = null;
+    this.mirror = undefined;
+    this.local = null;
   }
 
   // Get service by ID from database
   static async getServiceById(providerId: number): Promise<IStorageService> {
-    const [rows] = await pool.query<RowDataPacket[]>(
-      'SELECT provider_name FROM storage_providers WHERE id = ?',
-      [providerId]
-    );
+    const provider = await StorageProviderModel.findById(providerId);
 
-    if (rows.length === 0) {
+    if (!provider) {
       throw new Error('Storage provider not found');
     }
 
-    return this.createService(rows[0].provider_name);
+    return this.createService(provider.provider_name, provider.config);
+  }
+
+  // Check if a provider is out of its cooldown
+  static isHealthy(providerId: number): boolean {
+    const state = this.health.get(providerId);
+    return !state || state.unhealthyUntil <= Date.now();
+  }
+
+  // Record a successful operation
+  static recordSuccess(providerId: number): void {
+    this.health.delete(providerId);
+  }
+
+  // Record a failed operation, starting a cooldown after repeated failures
+  static recordFailure(providerId: number): void {
+    const state = this.health.get(providerId) || { failures: 0, unhealthyUntil: 0 };
+    state.failures++;
+
+    if (state.failures >= this.FAILURE_THRESHOLD) {
+      state.unhealthyUntil = Date.now() + this.COOLDOWN_MS;
+      console.warn(
+        `Storage provider ${providerId} marked unhealthy after ${state.failures} failures`
+      );
+    }
+
+    this.health.set(providerId, state);
+  }
+
+  // Take a provider out of rotation right away, e.g. when its config can't be decrypted
+  static markUnhealthy(providerId: number): void {
+    this.health.set(providerId, {
+      failures: this.FAILURE_THRESHOLD,
+      unhealthyUntil: Date.now() + this.COOLDOWN_MS,
+    });
+  }
+
+  // Get health of providers that have failed recently
+  static getHealth(): StorageProviderHealth[] {
+    return [...this.health.entries()].map(([providerId, state]) => ({
+      providerId,
+      consecutiveFailures: state.failures,
+      unhealthyUntil: state.unhealthyUntil > Date.now() ? new Date(state.unhealthyUntil) : null,
+    }));
   }
 }
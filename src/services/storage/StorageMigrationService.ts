@@ -0,0 +1,342 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { RowDataPacket } from 'mysql2';
+import { IStorageService, UploadResult } from './IStorageService';
+import { StorageFactory } from './StorageFactory';
+import { StorageMigrationModel } from '../../models/StorageMigration.model';
+import { WallpaperModel } from '../../models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../../models/WallpaperResolution.model';
+import { WallpaperFormatModel } from '../../models/WallpaperFormat.model';
+import { SlugUtil } from '../../utils/slug.util';
+import {
+  StorageMigration,
+  StorageMigrationAssetReport,
+  StorageMigrationItemStatus,
+  StorageMigrationStatus,
+} from '../../types';
+
+interface MigrationAsset {
+  asset: StorageMigrationAssetReport['asset'];
+  resolution_id?: number;
+  format_id?: number;
+  format?: string;
+  url: string;
+  folder: string;
+  filename: string;
+}
+
+export class StorageMigrationService {
+  static readonly BATCH_SIZE = 20;
+
+  // Migrations being processed by this server instance
+  private static running = new Set<number>();
+
+  // Start (or resume) a migration in the background
+  static start(migrationId: number): void {
+    if (this.running.has(migrationId)) return;
+
+    this.running.add(migrationId);
+
+    this.run(migrationId)
+      .catch(async (error) => {
+        console.error(`Storage migration ${migrationId} failed:`, error);
+        await StorageMigrationModel.update(migrationId, {
+          status: StorageMigrationStatus.FAILED,
+          error: error.message || 'Migration failed',
+          completed_at: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => {
+        this.running.delete(migrationId);
+      });
+  }
+
+  // Check if a migration is being processed by this server instance
+  static isRunning(migrationId: number): boolean {
+    return this.running.has(migrationId);
+  }
+
+  // Resume migrations left in the running state by a crash or restart
+  static async resumeInterrupted(): Promise<void> {
+    const migrations = await StorageMigrationModel.getByStatus(StorageMigrationStatus.RUNNING);
+
+    for (const migration of migrations) {
+      console.info(
+        `Resuming storage migration ${migration.id} after wallpaper ${migration.last_wallpaper_id}`
+      );
+      this.start(migration.id);
+    }
+  }
+
+  // Walk wallpapers from the checkpoint onwards
+  private static async run(migrationId: number): Promise<void> {
+    const migration = await StorageMigrationModel.findById(migrationId);
+    if (!migration) return;
+
+    const target = await StorageFactory.getServiceById(migration.target_provider_id);
+
+    // Total is only counted on first start; migrated rows drop out of the filter afterwards
+    if (!migration.started_at) {
+      migration.total_wallpapers = await StorageMigrationModel.countWallpapers(migration);
+    }
+
+    await StorageMigrationModel.update(migrationId, {
+      status: StorageMigrationStatus.RUNNING,
+      total_wallpapers: migration.total_wallpapers,
+      started_at: migration.started_at || new Date(),
+      error: '',
+    });
+
+    let lastId = migration.last_wallpaper_id;
+    let processed = migration.processed_wallpapers;
+    let failed = migration.failed_wallpapers;
+
+    while (true) {
+      const batch = await StorageMigrationModel.getNextWallpapers(
+        migration,
+        lastId,
+        this.BATCH_SIZE
+      );
+      if (batch.length === 0) break;
+
+      for (const wallpaper of batch) {
+        // Stop if an admin cancelled the job
+        const current = await StorageMigrationModel.findById(migrationId);
+        if (!current || current.status === StorageMigrationStatus.CANCELLED) {
+          return;
+        }
+
+        const { status, report, error } = await this.migrateWallpaper(
+          wallpaper,
+          migration,
+          target
+        );
+
+        await StorageMigrationModel.saveItem(migrationId, wallpaper.id, status, report, error);
+
+        processed++;
+        if (status === StorageMigrationItemStatus.FAILED) failed++;
+        lastId = wallpaper.id;
+
+        await StorageMigrationModel.update(migrationId, {
+          processed_wallpapers: processed,
+          failed_wallpapers: failed,
+          last_wallpaper_id: lastId,
+        });
+      }
+    }
+
+    await StorageMigrationModel.update(migrationId, {
+      status: StorageMigrationStatus.COMPLETED,
+      completed_at: new Date(),
+    });
+  }
+
+  // Copy every asset of one wallpaper and rewrite its URLs
+  private static async migrateWallpaper(
+    wallpaper: RowDataPacket,
+    migration: StorageMigration,
+    target: IStorageService
+  ): Promise<{
+    status: StorageMigrationItemStatus;
+    report: StorageMigrationAssetReport[];
+    error?: string;
+  }> {
+    const report: StorageMigrationAssetReport[] = [];
+    const uploaded = new Map<string, UploadResult>();
+
+    try {
+      const assets = await this.collectAssets(wallpaper);
+
+      if (assets.length === 0) {
+        return { status: StorageMigrationItemStatus.SKIPPED, report };
+      }
+
+      for (const asset of assets) {
+        const entry: StorageMigrationAssetReport = {
+          asset: asset.asset,
+          resolution_id: asset.resolution_id,
+          format_id: asset.format_id,
+          source_url: asset.url,
+        };
+        report.push(entry);
+
+        // Same source object is referenced more than once (e.g. the "Original" resolution)
+        const existing = uploaded.get(asset.url);
+        if (existing) {
+          entry.target_url = existing.url;
+          entry.source_size = entry.target_size = existing.size;
+          entry.checksum_match = true;
+          continue;
+        }
+
+        try {
+          if (migration.dry_run) {
+            const head = await axios.head(asset.url);
+            entry.source_size = parseInt(head.headers['content-length']) || undefined;
+            continue;
+          }
+
+          const source = await this.fetch(asset.url);
+          entry.source_size = source.length;
+
+          const result = await target.upload(source, {
+            folder: asset.folder,
+            filename: asset.filename,
+            format: asset.format,
+          });
+          uploaded.set(asset.url, result);
+          entry.target_url = result.url;
+
+          // Verify the copy by reading it back
+          const copy = await this.fetch(result.url);
+          entry.target_size = copy.length;
+          entry.checksum_match = this.checksum(copy) === this.checksum(source);
+
+          if (!entry.checksum_match) {
+            entry.error = 'Checksum mismatch after copy';
+          }
+        } catch (error: any) {
+          entry.error = error.message || 'Copy failed';
+        }
+      }
+
+      const failures = report.filter((entry) => entry.error);
+
+      if (failures.length > 0) {
+        await this.discard(target, uploaded);
+        return {
+          status: StorageMigrationItemStatus.FAILED,
+          report,
+          error: `${failures.length} of ${report.length} assets failed`,
+        };
+      }
+
+      if (migration.dry_run) {
+        return { status: StorageMigrationItemStatus.PLANNED, report };
+      }
+
+      // Rewrite URLs only after every asset has been verified
+      const copyOf = (url: string | null) => (url ? uploaded.get(url) : undefined);
+
+      await WallpaperModel.update(wallpaper.id, {
+        original_url: copyOf(wallpaper.original_url)?.url,
+        thumbnail_url: copyOf(wallpaper.thumbnail_url)?.url,
+        medium_url: copyOf(wallpaper.medium_url)?.url,
+        original_public_id: copyOf(wallpaper.original_url)?.publicId,
+        thumbnail_public_id: copyOf(wallpaper.thumbnail_url)?.publicId,
+        medium_public_id: copyOf(wallpaper.medium_url)?.publicId,
+        storage_provider_id: migration.target_provider_id,
+      });
+
+      for (const entry of report) {
+        const copy = copyOf(entry.source_url);
+        if (entry.format_id && copy) {
+          await WallpaperFormatModel.updateUrl(entry.format_id, copy.url, copy.publicId);
+        } else if (entry.resolution_id && copy) {
+          await WallpaperResolutionModel.updateUrl(entry.resolution_id, copy.url, copy.publicId);
+        }
+      }
+
+      return { status: StorageMigrationItemStatus.MIGRATED, report };
+    } catch (error: any) {
+      await this.discard(target, uploaded);
+      return {
+        status: StorageMigrationItemStatus.FAILED,
+        report,
+        error: error.message || 'Migration failed',
+      };
+    }
+  }
+
+  // Helper: List the stored objects that belong to a wallpaper
+  private static async collectAssets(wallpaper: RowDataPacket): Promise<MigrationAsset[]> {
+    const assets: MigrationAsset[] = [];
+
+    if (wallpaper.original_url) {
+      assets.push({
+        asset: 'original',
+        url: wallpaper.original_url,
+        folder: 'wallpapers/original',
+        filename: wallpaper.slug,
+      });
+    }
+    if (wallpaper.thumbnail_url) {
+      assets.push({
+        asset: 'thumbnail',
+        url: wallpaper.thumbnail_url,
+        folder: 'wallpapers/thumbnails',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-thumb`, wallpaper.crop_revision || 0),
+      });
+    }
+    if (wallpaper.medium_url) {
+      assets.push({
+        asset: 'medium',
+        url: wallpaper.medium_url,
+        folder: 'wallpapers/medium',
+        filename: SlugUtil.versioned(`${wallpaper.slug}-medium`, wallpaper.crop_revision || 0),
+      });
+    }
+
+    const resolutions = await WallpaperResolutionModel.getByWallpaperId(wallpaper.id);
+    for (const resolution of resolutions) {
+      assets.push({
+        asset: 'resolution',
+        resolution_id: resolution.id,
+        url: resolution.url,
+        folder: 'wallpapers/resolutions',
+        filename: SlugUtil.versioned(
+          `${wallpaper.slug}-${resolution.resolution_name.toLowerCase().replace(/\s+/g, '-')}`,
+          wallpaper.crop_revision || 0
+        ),
+      });
+    }
+
+    // WebP/AVIF variants sit next to the file they were derived from
+    for (const variant of await WallpaperFormatModel.getByWallpaperId(wallpaper.id)) {
+      const base = assets.find((asset) =>
+        variant.asset === 'resolution'
+          ? asset.resolution_id === variant.resolution_id
+          : asset.asset === variant.asset
+      );
+      if (!base) continue;
+
+      assets.push({
+        asset: 'format',
+        format_id: variant.id,
+        format: variant.format,
+        url: variant.url,
+        folder: base.folder,
+        filename: `${base.filename}-${variant.format}`,
+      });
+    }
+
+    return assets;
+  }
+
+  // Helper: Remove copies of a wallpaper that failed part-way
+  private static async discard(
+    target: IStorageService,
+    uploaded: Map<string, UploadResult>
+  ): Promise<void> {
+    for (const result of uploaded.values()) {
+      if (!result.publicId) continue;
+      try {
+        await target.delete(result.publicId);
+      } catch (error) {
+        console.error(`Failed to discard migrated object ${result.publicId}:`, error);
+      }
+    }
+  }
+
+  // Helper: Download an object
+  private static async fetch(url: string): Promise<Buffer> {
+    const response = await axios.get(url, { responseType: 'arraybuffer' });
+    return Buffer.from(response.data);
+  }
+
+  // Helper: SHA-256 of a buffer
+  private static checksum(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+}
@@ -75,6 +75,12 @@ export enum WallpaperSource {
   UNSPLASH = 'unsplash',
 }
 
+export enum WallpaperProcessingStatus {
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+}
+
 export interface Wallpaper {
   id: number;
   title: string;
@@ -83,14 +89,29 @@ export interface Wallpaper {
   original_url: string;
   thumbnail_url: string;
   medium_url?: string;
+  original_public_id?: string;
+  thumbnail_public_id?: string;
+  medium_public_id?: string;
   primary_color?: string;
+  blurhash?: string;
+  lqip?: string;
+  content_hash?: string;
+  perceptual_hash?: string;
+  skipped_resolutions?: SkippedResolution[];
+  focal_point?: FocalPoint | null;
+  crop_revision: number;
+  palette?: PaletteColor[];
   tags?: string[];
   source: WallpaperSource;
   source_id?: string;
   uploaded_by: number;
   storage_provider_id: number;
   is_featured: 0 | 1;
+  is_animated: 0 | 1;
+  frame_count?: number | null;
+  animation_duration?: number | null; // ms per loop
   is_active: 0 | 1;
+  processing_status: WallpaperProcessingStatus;
   view_count: number;
   download_count: number;
   favorite_count: number;
@@ -100,6 +121,52 @@ export interface Wallpaper {
   resolutions?: WallpaperResolution[];
 }
 
+// Region crops keep in frame, normalized to 0-1 of the displayed image.
+// x/y alone is a point; with width/height it's the top-left corner of a box.
+export interface FocalPoint {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+// One dominant colour of a wallpaper
+export interface PaletteColor {
+  hex: string;
+  proportion: number;
+  lab: { l: number; a: number; b: number };
+}
+
+// Metadata the upload policy removed from an original (admins only)
+export interface RemovedMetadata {
+  orientation: number;
+  has_location: boolean;
+  exif: Record<string, any> | null;
+  xmp: string | null;
+  iptc: string | null; // base64
+}
+
+export interface WallpaperMetadata extends RemovedMetadata {
+  id: number;
+  wallpaper_id: number;
+  created_at: Date;
+}
+
+// Outcome of re-cropping a wallpaper's derived files after its focal point changed
+export interface CropRegeneration {
+  regenerated: string[];
+  failed: { asset: string; error: string }[];
+  invalidated_renders: number;
+}
+
+export interface SkippedResolution {
+  name: string;
+  width: number;
+  height: number;
+  reason: 'orientation_mismatch' | 'larger_than_source' | 'generation_failed';
+  detail: string;
+}
+
 export interface CreateWallpaperDTO {
   title: string;
   description?: string;
@@ -116,8 +183,43 @@ export interface WallpaperResolution {
   resolution_name: string;
   file_size?: number;
   url: string;
+  public_id?: string;
   is_original: 0 | 1;
   created_at: Date;
+  formats?: WallpaperFormat[];
+}
+
+// Modern formats stored next to the JPEG of each derived file
+export type VariantFormat = 'webp' | 'avif';
+
+export interface WallpaperFormat {
+  id: number;
+  wallpaper_id: number;
+  resolution_id?: number;
+  asset: 'thumbnail' | 'medium' | 'resolution';
+  format: VariantFormat;
+  file_size?: number;
+  url: string;
+  public_id?: string;
+  created_at: Date;
+}
+
+// Render Types
+export interface WallpaperRender {
+  id: number;
+  wallpaper_id: number;
+  cache_key: string;
+  width: number;
+  height: number;
+  fit: 'cover' | 'contain' | 'inside';
+  format: 'jpeg' | 'webp' | 'avif';
+  file_size?: number;
+  storage_provider_id: number;
+  url: string;
+  public_id?: string;
+  hit_count: number;
+  last_accessed_at?: Date;
+  created_at: Date;
 }
 
 export interface ResolutionConfig {
@@ -138,7 +240,10 @@ export interface StorageProviderConfig {
   provider_name: StorageProvider;
   is_active: 0 | 1;
   priority: number;
-  config: CloudinaryConfig | S3Config;
+  config: CloudinaryConfig | S3Config | LocalStorageConfig;
+  storage_cost_per_gb: number;
+  egress_cost_per_gb: number;
+  is_mirror: 0 | 1;
   created_at: Date;
   updated_at: Date;
 }
@@ -156,6 +261,251 @@ export interface S3Config {
   secret_access_key: string;
 }
 
+export interface LocalStorageConfig {
+  root_path: string;
+  base_url: string;
+}
+
+// Storage Migration Types
+export enum StorageMigrationStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export enum StorageMigrationItemStatus {
+  MIGRATED = 'migrated',
+  PLANNED = 'planned',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+export interface StorageMigration {
+  id: number;
+  source_provider_id?: number;
+  target_provider_id: number;
+  status: StorageMigrationStatus;
+  dry_run: 0 | 1;
+  total_wallpapers: number;
+  processed_wallpapers: number;
+  failed_wallpapers: number;
+  last_wallpaper_id: number;
+  error?: string;
+  started_by: number;
+  started_at?: Date;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface StorageMigrationAssetReport {
+  asset: 'original' | 'thumbnail' | 'medium' | 'resolution' | 'format';
+  resolution_id?: number;
+  format_id?: number;
+  source_url: string;
+  target_url?: string;
+  source_size?: number;
+  target_size?: number;
+  checksum_match?: boolean;
+  error?: string;
+}
+
+export interface StorageMigrationItem {
+  id: number;
+  migration_id: number;
+  wallpaper_id: number;
+  status: StorageMigrationItemStatus;
+  report: StorageMigrationAssetReport[];
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Integrity Scan Types
+export enum IntegrityScanStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export enum IntegrityIssueType {
+  MISSING = 'missing',
+  SIZE_MISMATCH = 'size_mismatch',
+  CONTENT_TYPE_MISMATCH = 'content_type_mismatch',
+  UNREACHABLE = 'unreachable',
+}
+
+export enum IntegrityIssueStatus {
+  OPEN = 'open',
+  REPAIRED = 'repaired',
+}
+
+export interface IntegrityScan {
+  id: number;
+  status: IntegrityScanStatus;
+  total_wallpapers: number;
+  processed_wallpapers: number;
+  issues_found: number;
+  last_wallpaper_id: number;
+  error?: string;
+  started_by: number;
+  started_at?: Date;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IntegrityIssue {
+  id: number;
+  scan_id: number;
+  wallpaper_id: number;
+  resolution_id?: number;
+  asset: 'original' | 'thumbnail' | 'medium' | 'resolution';
+  url: string;
+  public_id?: string;
+  issue: IntegrityIssueType;
+  expected_size?: number;
+  actual_size?: number;
+  expected_content_type?: string;
+  actual_content_type?: string;
+  details?: string;
+  status: IntegrityIssueStatus;
+  repaired_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Replica Types
+export interface WallpaperReplica {
+  id: number;
+  wallpaper_id: number;
+  resolution_id?: number;
+  asset: 'original' | 'thumbnail' | 'medium' | 'resolution';
+  storage_provider_id: number;
+  url: string;
+  public_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReplicaReconciliation {
+  status: 'running' | 'completed' | 'failed';
+  storage_provider_id: number;
+  total_wallpapers: number;
+  processed_wallpapers: number;
+  replicated_assets: number;
+  failed_assets: number;
+  last_wallpaper_id: number;
+  error?: string;
+  started_at: Date;
+  completed_at?: Date;
+}
+
+// Resolution Preset Types
+export enum DeviceClass {
+  DESKTOP = 'desktop',
+  ULTRAWIDE = 'ultrawide',
+  TABLET = 'tablet',
+  MOBILE = 'mobile',
+  ANY = 'any',
+}
+
+export interface ResolutionPreset {
+  id: number;
+  name: string;
+  width: number;
+  height: number;
+  device_class: DeviceClass;
+  orientation: 'landscape' | 'portrait' | null; // null = generated for every source
+  format: 'jpeg' | 'webp';
+  quality: number;
+  is_active: 0 | 1;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Processing Job Types
+export enum ProcessingJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum ProcessingJobType {
+  PROCESS = 'process', // every derived file of a new upload
+  RECROP = 'recrop', // crops of a ready wallpaper after a focal point change
+}
+
+export interface ProcessingJob {
+  id: number;
+  wallpaper_id: number;
+  type: ProcessingJobType;
+  status: ProcessingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  total_steps: number;
+  completed_steps: number;
+  errors?: { step: string; error: string }[] | null;
+  error?: string;
+  run_after: Date;
+  locked_at?: Date;
+  locked_by?: string | null;
+  started_at?: Date;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Quality Gate Types
+export interface QualityIssue {
+  check: 'dimensions' | 'aspect_ratio' | 'blur' | 'compression';
+  severity: 'warning' | 'error';
+  message: string;
+  value: number | string;
+  threshold: number | string;
+}
+
+export interface QualityReport {
+  metrics: {
+    width: number;
+    height: number;
+    orientation: 'landscape' | 'portrait' | 'square';
+    aspect_ratio: number;
+    blur_score: number;
+    jpeg_quality: number | null; // estimated, JPEG only
+  };
+  errors: QualityIssue[];
+  warnings: QualityIssue[];
+}
+
+// Upload Session Types
+export enum UploadSessionStatus {
+  PENDING = 'pending',
+  FINALIZING = 'finalizing',
+  FINALIZED = 'finalized',
+  EXPIRED = 'expired',
+}
+
+export interface UploadSession {
+  id: number;
+  storage_provider_id: number;
+  public_id: string;
+  content_type: string;
+  max_size: number;
+  status: UploadSessionStatus;
+  wallpaper_id?: number;
+  uploaded_by: number;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // Download Types
 export enum DeviceType {
   MOBILE = 'mobile',
@@ -172,6 +522,7 @@ export interface Download {
   ip_address?: string;
   user_agent?: string;
   device_type: DeviceType;
+  format?: string;
   downloaded_at: Date;
 }
 
@@ -234,6 +585,34 @@ export interface CategoryStats {
   total_views: number;
 }
 
+export interface StorageUsage {
+  id: number;
+  name: string;
+  wallpaper_count: number;
+  file_count: number;
+  bytes_stored: number;
+}
+
+export interface BandwidthUsage {
+  date: string;
+  downloads: number;
+  bytes_served: number;
+  by_resolution: { resolution_name: string; downloads: number; bytes_served: number }[];
+  by_device: { device_type: string; downloads: number; bytes_served: number }[];
+}
+
+export interface CostProjection {
+  storage_provider_id: number;
+  provider_name: string;
+  bytes_stored: number;
+  bytes_served_monthly: number;
+  storage_cost_per_gb: number;
+  egress_cost_per_gb: number;
+  storage_cost: number;
+  egress_cost: number;
+  total_cost: number;
+}
+
 export interface DownloadTrend {
   date: string;
   downloads: number;
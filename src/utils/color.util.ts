@@ -0,0 +1,168 @@
+// CIE L*a*b* colour
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// D65 reference white
+const WHITE = { x: 0.95047, y: 1, z: 1.08883 };
+
+// Cluster seeds closer than this (ΔE) are treated as the same colour
+const MIN_SEED_DISTANCE = 15;
+const MAX_ITERATIONS = 10;
+
+export class ColorUtil {
+  // Parse #rgb / #rrggbb (the # is optional), or null if invalid
+  static parseHex(value: string): { r: number; g: number; b: number } | null {
+    let hex = value.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+      hex = hex
+        .split('')
+        .map((c) => c + c)
+        .join('');
+    }
+    if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+    };
+  }
+
+  // Format RGB as #rrggbb
+  static toHex(r: number, g: number, b: number): string {
+    return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  // sRGB (0-255) to Lab
+  static rgbToLab(r: number, g: number, b: number): Lab {
+    const linear = (c: number) => {
+      c /= 255;
+      return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const fx = f((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE.x);
+    const fy = f((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE.y);
+    const fz = f((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE.z);
+
+    return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+  }
+
+  // Lab to sRGB (0-255), clamped to the displayable range
+  static labToRgb(lab: Lab): { r: number; g: number; b: number } {
+    const fy = (lab.l + 16) / 116;
+    const fx = fy + lab.a / 500;
+    const fz = fy - lab.b / 200;
+
+    const inverse = (t: number) => (t * t * t > 0.008856 ? t * t * t : (t - 16 / 116) / 7.787);
+    const x = WHITE.x * inverse(fx);
+    const y = WHITE.y * inverse(fy);
+    const z = WHITE.z * inverse(fz);
+
+    const gamma = (c: number) => {
+      c = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+      return Math.round(Math.min(1, Math.max(0, c)) * 255);
+    };
+
+    return {
+      r: gamma(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+      g: gamma(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+      b: gamma(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+    };
+  }
+
+  // Perceptual distance between two colours (CIE76 ΔE)
+  static deltaE(x: Lab, y: Lab): number {
+    return Math.sqrt((x.l - y.l) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2);
+  }
+
+  // Group pixels into at most `count` colours with k-means, largest first.
+  // Seeds come from the most populated regions of Lab space, so results are repeatable.
+  static quantize(pixels: Lab[], count: number): { lab: Lab; proportion: number }[] {
+    if (pixels.length === 0) return [];
+
+    let centroids = this.seed(pixels, count);
+    const assignments = new Array<number>(pixels.length).fill(-1);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      let changed = false;
+
+      pixels.forEach((pixel, i) => {
+        let nearest = 0;
+        let best = Infinity;
+        centroids.forEach((centroid, c) => {
+          const distance = this.deltaE(pixel, centroid);
+          if (distance < best) {
+            best = distance;
+            nearest = c;
+          }
+        });
+        if (assignments[i] !== nearest) {
+          assignments[i] = nearest;
+          changed = true;
+        }
+      });
+
+      if (!changed) break;
+      centroids = this.means(pixels, assignments, centroids);
+    }
+
+    const sizes = new Array<number>(centroids.length).fill(0);
+    for (const assignment of assignments) sizes[assignment]++;
+
+    return centroids
+      .map((lab, c) => ({ lab, proportion: sizes[c] / pixels.length }))
+      .filter((cluster) => cluster.proportion > 0)
+      .sort((x, y) => y.proportion - x.proportion);
+  }
+
+  // Helper: Initial centroids from the fullest 10-unit cells of Lab space
+  private static seed(pixels: Lab[], count: number): Lab[] {
+    const cells = new Map<string, { sum: Lab; size: number }>();
+
+    for (const pixel of pixels) {
+      const key = `${Math.floor(pixel.l / 10)}:${Math.floor(pixel.a / 10)}:${Math.floor(pixel.b / 10)}`;
+      const cell = cells.get(key) || { sum: { l: 0, a: 0, b: 0 }, size: 0 };
+      cell.sum.l += pixel.l;
+      cell.sum.a += pixel.a;
+      cell.sum.b += pixel.b;
+      cell.size++;
+      cells.set(key, cell);
+    }
+
+    const candidates = [...cells.values()]
+      .sort((x, y) => y.size - x.size)
+      .map(({ sum, size }) => ({ l: sum.l / size, a: sum.a / size, b: sum.b / size }));
+
+    const seeds: Lab[] = [];
+    for (const candidate of candidates) {
+      if (seeds.length >= count) break;
+      if (seeds.every((seed) => this.deltaE(seed, candidate) >= MIN_SEED_DISTANCE)) {
+        seeds.push(candidate);
+      }
+    }
+
+    return seeds;
+  }
+
+  // Helper: Mean of each cluster; empty clusters keep their previous centroid
+  private static means(pixels: Lab[], assignments: number[], previous: Lab[]): Lab[] {
+    const sums = previous.map(() => ({ l: 0, a: 0, b: 0, size: 0 }));
+
+    pixels.forEach((pixel, i) => {
+      const sum = sums[assignments[i]];
+      sum.l += pixel.l;
+      sum.a += pixel.a;
+      sum.b += pixel.b;
+      sum.size++;
+    });
+
+    return sums.map((sum, c) =>
+      sum.size > 0 ? { l: sum.l / sum.size, a: sum.a / sum.size, b: sum.b / sum.size } : previous[c]
+    );
+  }
+}
@@ -0,0 +1,40 @@
+export class ConcurrencyUtil {
+  // Run a task for every item, at most `limit` at a time; results keep the order of `items`
+  static async map<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+  ): Promise<PromiseSettledResult<R>[]> {
+    const results = new Array<PromiseSettledResult<R>>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker())
+    );
+
+    return results;
+  }
+
+  // Retry a task up to `retries` more times, doubling the delay after each failure
+  static async retry<T>(task: () => Promise<T>, retries: number, delayMs: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= retries) throw error;
+        await new Promise((resolve) => setTimeout(resolve, delayMs * 2 ** attempt));
+      }
+    }
+  }
+}
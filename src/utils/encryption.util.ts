@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1:';
+
+export class EncryptionUtil {
+  // Check that a key is configured
+  static isConfigured(): boolean {
+    return !!process.env.STORAGE_ENCRYPTION_KEY;
+  }
+
+  // 32-byte key derived from a dedicated secret, so rotating JWT_SECRET can't lock out
+  // the stored credentials
+  private static getKey(): Buffer {
+    const secret = process.env.STORAGE_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('STORAGE_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  // Encrypt a string (enc:v1:<iv>:<tag>:<ciphertext>, base64 parts)
+  static encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  // Decrypt a value produced by encrypt; plain values are returned as-is
+  static decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [iv, tag, ciphertext] = value
+      .slice(PREFIX.length)
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  // Check if a value is encrypted
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+}
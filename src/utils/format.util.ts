@@ -0,0 +1,41 @@
+import { VariantFormat } from '../types';
+
+// Variant formats from best to worst compression
+const PREFERENCE: VariantFormat[] = ['avif', 'webp'];
+
+export class FormatUtil {
+  // Values accepted by the `format` query parameter (jpeg = the base file)
+  static readonly REQUESTABLE = ['avif', 'webp', 'jpeg'];
+
+  // Pick the best variant the client accepts, or null to serve the base file
+  static negotiate(accept: string | undefined, available: VariantFormat[]): VariantFormat | null {
+    const accepted = this.parseAccept(accept);
+
+    // Wildcards don't count: browsers list the modern formats they decode explicitly
+    return (
+      PREFERENCE.find(
+        (format) => available.includes(format) && (accepted.get(`image/${format}`) ?? 0) > 0
+      ) || null
+    );
+  }
+
+  // Helper: Media types of an Accept header with their q-values
+  private static parseAccept(accept: string | undefined): Map<string, number> {
+    const types = new Map<string, number>();
+
+    for (const part of (accept || '').split(',')) {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      if (!type) continue;
+
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      types.set(type, q ? parseFloat(q.slice(2)) || 0 : 1);
+    }
+
+    return types;
+  }
+
+  // File extension for a format
+  static extension(format: string): string {
+    return format === 'jpeg' ? 'jpg' : format;
+  }
+}
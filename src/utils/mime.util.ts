@@ -0,0 +1,23 @@
+// Image content types by file extension
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+};
+
+export class MimeUtil {
+  // Get content type from a path or URL extension
+  static fromPath(filePath: string): string | null {
+    const match = filePath.split('?')[0].match(/\.([a-z0-9]+)$/i);
+    return match ? CONTENT_TYPES[match[1].toLowerCase()] || null : null;
+  }
+
+  // Compare content types, ignoring parameters and case
+  static matches(a: string, b: string): boolean {
+    const normalize = (value: string) => value.split(';')[0].trim().toLowerCase();
+    return normalize(a) === normalize(b);
+  }
+}
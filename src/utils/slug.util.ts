@@ -22,6 +22,12 @@ export class SlugUtil {
     return slug;
   }
 
+  // Storage filename of a derived file at a crop revision. Every revision gets its own
+  // keys, so CDN and browser caches never serve an earlier crop under the new URL.
+  static versioned(filename: string, revision: number): string {
+    return revision > 0 ? `${filename}-r${revision}` : filename;
+  }
+
   // Add timestamp to slug for uniqueness
   static generateWithTimestamp(text: string): string {
     const baseSlug = this.generate(text);
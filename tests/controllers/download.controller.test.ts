@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { DownloadController } from '../../src/controllers/download.controller';
+import { WallpaperModel } from '../../src/models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../../src/models/WallpaperResolution.model';
+import { DownloadModel } from '../../src/models/Download.model';
+import { WallpaperProcessingStatus } from '../../src/types';
+
+jest.mock('../../src/models/Wallpaper.model');
+jest.mock('../../src/models/WallpaperResolution.model');
+jest.mock('../../src/models/Download.model');
+
+const wallpaper = { id: 1, slug: 'dunes', processing_status: WallpaperProcessingStatus.READY };
+
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  input: { query?: Record<string, any>; body?: Record<string, any> }
+) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const req = { query: {}, body: {}, headers: {}, ip: '203.0.113.7', method: 'GET', ...input };
+  await handler(req as unknown as Request, res as unknown as Response);
+  return res;
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.mocked(WallpaperModel.findById).mockResolvedValue(wallpaper as any);
+});
+
+describe('DownloadController', () => {
+  // A resolution of another (possibly unprocessed) wallpaper
+  const foreign = { id: 9, wallpaper_id: 2, resolution_name: '4K', url: 'https://cdn/other.jpg' };
+
+  it('answers 404 when the resolution belongs to another wallpaper', async () => {
+    jest.mocked(WallpaperResolutionModel.findById).mockResolvedValue(foreign as any);
+
+    const res = await call(DownloadController.downloadWallpaper, {
+      query: { wallpaperId: '1', resolutionId: '9' },
+    });
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({ success: false, error: 'Resolution not found' });
+  });
+
+  it('does not track a download of another wallpaper\'s resolution', async () => {
+    jest.mocked(WallpaperResolutionModel.findById).mockResolvedValue(foreign as any);
+
+    const res = await call(DownloadController.trackDownload, {
+      body: { wallpaperId: 1, resolutionId: 9 },
+    });
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(DownloadModel.create).not.toHaveBeenCalled();
+    expect(WallpaperModel.incrementDownloadCount).not.toHaveBeenCalled();
+  });
+
+  it('tracks a download of the wallpaper\'s own resolution', async () => {
+    jest
+      .mocked(WallpaperResolutionModel.findById)
+      .mockResolvedValue({ ...foreign, wallpaper_id: 1 } as any);
+
+    const res = await call(DownloadController.trackDownload, {
+      body: { wallpaperId: 1, resolutionId: 9 },
+    });
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(DownloadModel.create).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { MediaController } from '../../src/controllers/media.controller';
+import { StorageFactory } from '../../src/services/storage/StorageFactory';
+import { UploadSessionModel } from '../../src/models/UploadSession.model';
+
+jest.mock('../../src/services/storage/StorageFactory');
+jest.mock('../../src/models/UploadSession.model');
+
+const call = async (handler: (req: Request, res: Response) => Promise<void>, path: string) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn(), sendFile: jest.fn() };
+  await handler({ path, query: {}, headers: {} } as unknown as Request, res as unknown as Response);
+  return res;
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.mocked(StorageFactory.getLocalServices).mockResolvedValue([]);
+});
+
+describe('MediaController', () => {
+  it.each([
+    ['serve', MediaController.serve],
+    ['receive', MediaController.receive],
+  ])('%s answers 400 for a malformed escape in the path', async (_, handler) => {
+    const res = await call(handler, '/wallpapers/%E0%A4%A');
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ success: false, error: 'Invalid file path' });
+    expect(UploadSessionModel.findByPublicId).not.toHaveBeenCalled();
+  });
+
+  it('does not serve the transform cache as files', async () => {
+    const res = await call(MediaController.serve, '/.transforms/wallpapers/dunes.jpg/320x0.jpeg');
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.sendFile).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for a file no local provider holds', async () => {
+    const res = await call(MediaController.serve, '/wallpapers/missing.jpg');
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
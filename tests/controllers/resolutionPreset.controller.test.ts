@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { ResolutionPresetController } from '../../src/controllers/resolutionPreset.controller';
+import { ResolutionPresetModel } from '../../src/models/ResolutionPreset.model';
+import { ResolutionPresetService } from '../../src/services/ResolutionPresetService';
+
+jest.mock('../../src/models/ResolutionPreset.model');
+
+const presets = jest.mocked(ResolutionPresetModel);
+
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  body: Record<string, any>,
+  params: Record<string, string> = {}
+) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  await handler({ body, params } as unknown as Request, res as unknown as Response);
+  return res;
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.spyOn(ResolutionPresetService, 'reset');
+});
+
+describe('ResolutionPresetController.create', () => {
+  it('creates a valid preset and drops the cached presets', async () => {
+    presets.create.mockResolvedValue(7);
+    presets.findById.mockResolvedValue({ id: 7 } as any);
+
+    const res = await call(ResolutionPresetController.create, {
+      name: ' 8K ',
+      width: 7680,
+      height: 4320,
+      device_class: 'desktop',
+      orientation: 'landscape',
+    });
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(presets.create).toHaveBeenCalledWith({
+      name: '8K',
+      width: 7680,
+      height: 4320,
+      device_class: 'desktop',
+      orientation: 'landscape',
+    });
+    expect(ResolutionPresetService.reset).toHaveBeenCalled();
+  });
+
+  it('requires every field and reports each invalid one', async () => {
+    const res = await call(ResolutionPresetController.create, {
+      width: 0,
+      height: 'tall',
+      format: 'gif',
+      quality: 120,
+    });
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].errors).toHaveLength(6);
+    expect(presets.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a duplicate name', async () => {
+    presets.findByName.mockResolvedValue({ id: 3 } as any);
+
+    const res = await call(ResolutionPresetController.create, {
+      name: '4K',
+      width: 3840,
+      height: 2160,
+      device_class: 'desktop',
+    });
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+});
+
+describe('ResolutionPresetController.update', () => {
+  it('validates only the fields given', async () => {
+    presets.findById.mockResolvedValue({ id: 3, name: '4K' } as any);
+
+    const res = await call(
+      ResolutionPresetController.update,
+      { quality: 80, orientation: null },
+      { id: '3' }
+    );
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(presets.update).toHaveBeenCalledWith(3, { quality: 80, orientation: null });
+  });
+
+  it('answers 404 for an unknown preset', async () => {
+    presets.findById.mockResolvedValue(null);
+
+    const res = await call(ResolutionPresetController.update, { quality: 80 }, { id: '99' });
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(presets.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { WallpaperController } from '../../src/controllers/wallpaper.controller';
+import { WallpaperModel } from '../../src/models/Wallpaper.model';
+import { ReplicaService } from '../../src/services/storage/ReplicaService';
+import { WallpaperProcessingStatus } from '../../src/types';
+
+jest.mock('../../src/models/Wallpaper.model');
+jest.mock('../../src/services/storage/ReplicaService');
+
+const wallpapers = jest.mocked(WallpaperModel);
+
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  params: Record<string, string>
+) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn(), redirect: jest.fn() };
+  await handler(
+    { params, query: {}, body: {}, headers: {} } as unknown as Request,
+    res as unknown as Response
+  );
+  return res;
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.mocked(ReplicaService.withFallback).mockImplementation(async (list) => list);
+});
+
+describe('WallpaperController public endpoints', () => {
+  it.each([WallpaperProcessingStatus.PROCESSING, WallpaperProcessingStatus.FAILED])(
+    'answer 404 while a wallpaper is %s',
+    async (status) => {
+      const wallpaper = { id: 1, slug: 'dunes', processing_status: status } as any;
+      wallpapers.findBySlug.mockResolvedValue(wallpaper);
+      wallpapers.findById.mockResolvedValue(wallpaper);
+
+      for (const [handler, params] of [
+        [WallpaperController.getBySlug, { slug: 'dunes' }],
+        [WallpaperController.getResolutions, { id: '1' }],
+        [WallpaperController.getSimilar, { id: '1' }],
+        [WallpaperController.getPreview, { id: '1' }],
+      ] as const) {
+        const res = await call(handler, params);
+        expect(res.status).toHaveBeenCalledWith(404);
+      }
+      expect(wallpapers.incrementViewCount).not.toHaveBeenCalled();
+    }
+  );
+
+  it('serves a ready wallpaper by slug', async () => {
+    const wallpaper = { id: 1, slug: 'dunes', processing_status: 'ready' } as any;
+    wallpapers.findBySlug.mockResolvedValue(wallpaper);
+
+    const res = await call(WallpaperController.getBySlug, { slug: 'dunes' });
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: wallpaper });
+  });
+
+  it('leaves hashes and storage keys out of wallpaper responses', async () => {
+    const internal = {
+      content_hash: 'a'.repeat(64),
+      perceptual_hash: 'f0e1d2c3b4a59687',
+      original_public_id: 'wallpapers/original/dunes',
+      thumbnail_public_id: 'wallpapers/thumbnail/dunes',
+      medium_public_id: 'wallpapers/medium/dunes',
+    };
+    const wallpaper = { id: 1, slug: 'dunes', processing_status: 'ready', ...internal } as any;
+    wallpapers.findBySlug.mockResolvedValue(wallpaper);
+    wallpapers.findById.mockResolvedValue(wallpaper);
+    wallpapers.findSimilar.mockResolvedValue([{ ...wallpaper, id: 2, distance: 3 }]);
+
+    const detail = await call(WallpaperController.getBySlug, { slug: 'dunes' });
+    const similar = await call(WallpaperController.getSimilar, { id: '1' });
+
+    expect(wallpapers.findSimilar).toHaveBeenCalledWith(
+      'f0e1d2c3b4a59687',
+      expect.any(Number),
+      12,
+      1
+    );
+    for (const data of [detail.json.mock.calls[0][0].data, similar.json.mock.calls[0][0].data[0]]) {
+      for (const key of Object.keys(internal)) expect(data).not.toHaveProperty(key);
+      expect(data).toHaveProperty('slug', 'dunes');
+    }
+  });
+});
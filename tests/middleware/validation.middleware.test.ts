@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import { validateFocalPoint } from '../../src/middleware/validation.middleware';
+
+const run = (focalPoint: unknown) => {
+  const req = { body: { focal_point: focalPoint } } as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+
+  validateFocalPoint(req, res as unknown as Response, next);
+
+  return { body: req.body, res, next };
+};
+
+describe('validateFocalPoint', () => {
+  it.each([undefined, null])('passes %p through to clear or keep the focal point', (value) => {
+    const { body, next } = run(value);
+
+    expect(next).toHaveBeenCalled();
+    expect(body.focal_point).toBe(value);
+  });
+
+  it('accepts a point and drops unknown fields', () => {
+    const { body, next } = run({ x: 0.25, y: 0.75, label: 'face' });
+
+    expect(next).toHaveBeenCalled();
+    expect(body.focal_point).toEqual({ x: 0.25, y: 0.75 });
+  });
+
+  it('accepts a box given as a JSON string (multipart bodies)', () => {
+    const { body, next } = run('{"x":0.1,"y":0.2,"width":0.5,"height":0.8}');
+
+    expect(next).toHaveBeenCalled();
+    expect(body.focal_point).toEqual({ x: 0.1, y: 0.2, width: 0.5, height: 0.8 });
+  });
+
+  it.each([
+    ['malformed JSON', '{x:'],
+    ['an array', [0.5, 0.5]],
+    ['coordinates out of range', { x: 1.5, y: 0.5 }],
+    ['a box with one side', { x: 0.1, y: 0.1, width: 0.5 }],
+    ['an empty box', { x: 0.1, y: 0.1, width: 0, height: 0.5 }],
+    ['a box past the edge', { x: 0.6, y: 0.1, width: 0.5, height: 0.5 }],
+  ])('rejects %s', (_, value) => {
+    const { res, next } = run(value);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, errors: expect.any(Array) })
+    );
+  });
+});
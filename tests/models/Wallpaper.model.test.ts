@@ -0,0 +1,42 @@
+import pool from '../../src/config/database';
+import { WallpaperModel } from '../../src/models/Wallpaper.model';
+
+jest.mock('../../src/config/database', () => ({ __esModule: true, default: { query: jest.fn() } }));
+
+const query = jest.mocked(pool.query) as unknown as jest.Mock;
+
+beforeEach(() => {
+  query.mockReset();
+});
+
+describe('WallpaperModel perceptual hashes', () => {
+  it('binds hex hashes as exact unsigned 64-bit decimals', async () => {
+    query.mockResolvedValue([[]]);
+
+    await WallpaperModel.findSimilar('ffffffffffffffff', 12, 20, 7);
+    await WallpaperModel.update(7, { perceptual_hash: '00000000000000ff' });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('BIT_COUNT(w.perceptual_hash ^ CAST(? AS UNSIGNED))');
+    expect(params).toEqual(['18446744073709551615', 7, '18446744073709551615', 12, 20]);
+    expect(query.mock.calls[1][1]).toEqual(['255', 7]);
+  });
+
+  it('reads the column back as a 16-digit hex hash', async () => {
+    query.mockResolvedValue([
+      [
+        { id: 1, tags: null, perceptual_hash: '18446744073709551615' },
+        { id: 2, tags: null, perceptual_hash: 255 },
+        { id: 3, tags: null, perceptual_hash: null },
+      ],
+    ]);
+
+    const similar = await WallpaperModel.findSimilar('ffffffffffffffff', 12);
+
+    expect(similar.map((w) => w.perceptual_hash)).toEqual([
+      'ffffffffffffffff',
+      '00000000000000ff',
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import { ImageProcessingService } from '../../src/services/ImageProcessingService';
+import { DeviceClass, ResolutionPreset } from '../../src/types';
+
+const preset = (
+  name: string,
+  width: number,
+  height: number,
+  orientation: ResolutionPreset['orientation'] = null
+): ResolutionPreset => ({
+  id: 0,
+  name,
+  width,
+  height,
+  device_class: DeviceClass.DESKTOP,
+  orientation,
+  format: 'jpeg',
+  quality: 90,
+  is_active: 1,
+  sort_order: 0,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('ImageProcessingService.planFocusCrop', () => {
+  const source = { width: 4000, height: 2000 };
+
+  it('scales the source to cover the window', () => {
+    const crop = ImageProcessingService.planFocusCrop(source, 1000, 1000, { x: 0.5, y: 0.5 });
+
+    expect(crop.scaledWidth).toBe(2000);
+    expect(crop.scaledHeight).toBe(1000);
+    expect(crop.top).toBe(0);
+  });
+
+  it('centres the window on a focal point', () => {
+    const crop = ImageProcessingService.planFocusCrop(source, 1000, 1000, { x: 0.5, y: 0.5 });
+
+    expect(crop.left).toBe(500);
+  });
+
+  it('keeps the window within the scaled source near an edge', () => {
+    const left = ImageProcessingService.planFocusCrop(source, 1000, 1000, { x: 0, y: 0 });
+    const right = ImageProcessingService.planFocusCrop(source, 1000, 1000, { x: 1, y: 1 });
+
+    expect(left.left).toBe(0);
+    expect(right.left).toBe(1000);
+    expect(right.top).toBe(0);
+  });
+
+  it('keeps a box that fits the window whole', () => {
+    // Box from 1400 to 1800 of the 2000 scaled pixels: centring it would cut nothing off,
+    // but the window has to end at the box's edge at the latest
+    const crop = ImageProcessingService.planFocusCrop(source, 1000, 1000, {
+      x: 0.7,
+      y: 0.2,
+      width: 0.2,
+      height: 0.5,
+    });
+
+    expect(crop.left).toBeLessThanOrEqual(1400);
+    expect(crop.left + 1000).toBeGreaterThanOrEqual(1800);
+  });
+
+  it('centres on a box larger than the window', () => {
+    const crop = ImageProcessingService.planFocusCrop(source, 1000, 1000, {
+      x: 0.1,
+      y: 0,
+      width: 0.8,
+      height: 1,
+    });
+
+    expect(crop.left).toBe(500);
+  });
+});
+
+describe('ImageProcessingService.planResolutions', () => {
+  const presets = [
+    preset('1080p', 1920, 1080, 'landscape'),
+    preset('4K', 3840, 2160, 'landscape'),
+    preset('Mobile HD', 1080, 1920, 'portrait'),
+    preset('Any', 800, 800),
+  ];
+
+  it('plans presets a landscape source fills and skips the rest with a reason', () => {
+    const plan = ImageProcessingService.planResolutions(2560, 1440, presets);
+
+    expect(plan.presets.map((p) => p.name)).toEqual(['1080p', 'Any']);
+    expect(plan.skipped).toEqual([
+      expect.objectContaining({ name: '4K', reason: 'larger_than_source' }),
+      expect.objectContaining({ name: 'Mobile HD', reason: 'orientation_mismatch' }),
+    ]);
+  });
+
+  it('plans presets of both orientations for a square source', () => {
+    const plan = ImageProcessingService.planResolutions(2000, 2000, presets);
+
+    expect(plan.presets.map((p) => p.name)).toEqual(['1080p', 'Mobile HD', 'Any']);
+    expect(plan.skipped).toEqual([
+      expect.objectContaining({ name: '4K', reason: 'larger_than_source' }),
+    ]);
+  });
+
+  it('plans a preset exactly the size of the source', () => {
+    const plan = ImageProcessingService.planResolutions(1920, 1080, presets);
+
+    expect(plan.presets.map((p) => p.name)).toContain('1080p');
+  });
+});
+
+describe('ImageProcessingService.estimateJpegQuality', () => {
+  const image = () =>
+    sharp({ create: { width: 64, height: 64, channels: 3, background: '#3a6ea5' } });
+
+  it.each([50, 75, 90])('recovers quality %i from the quantization table', async (quality) => {
+    const buffer = await image().jpeg({ quality }).toBuffer();
+
+    expect(ImageProcessingService.estimateJpegQuality(buffer)).toBe(quality);
+  });
+
+  it('returns null for other formats', async () => {
+    const buffer = await image().png().toBuffer();
+
+    expect(ImageProcessingService.estimateJpegQuality(buffer)).toBeNull();
+  });
+
+  it('returns null for truncated files', () => {
+    expect(ImageProcessingService.estimateJpegQuality(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull();
+  });
+});
+
+describe('ImageProcessingService.computeBlurScore', () => {
+  // 8px black and white squares: the strongest Laplacian responses there are
+  const checkerboard = () => {
+    const size = 256;
+    const pixels = Buffer.alloc(size * size);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        pixels[y * size + x] = (Math.floor(x / 8) + Math.floor(y / 8)) % 2 ? 255 : 0;
+      }
+    }
+    return sharp(pixels, { raw: { width: size, height: size, channels: 1 } });
+  };
+
+  it('keeps the full range of sharp edges instead of clipping them', async () => {
+    const score = await ImageProcessingService.computeBlurScore(
+      await checkerboard().png().toBuffer()
+    );
+
+    // Clipped 8-bit responses could never exceed 128^2
+    expect(score).toBeGreaterThan(128 ** 2);
+  });
+
+  it('scores a blurred copy far lower', async () => {
+    const sharpScore = await ImageProcessingService.computeBlurScore(
+      await checkerboard().png().toBuffer()
+    );
+    const blurredScore = await ImageProcessingService.computeBlurScore(
+      await checkerboard().blur(6).png().toBuffer()
+    );
+
+    expect(blurredScore).toBeLessThan(sharpScore / 100);
+  });
+
+  it('scores images with an alpha channel like opaque ones', async () => {
+    const opaque = await checkerboard().png().toBuffer();
+    const transparent = await checkerboard().ensureAlpha().png().toBuffer();
+
+    expect(await ImageProcessingService.computeBlurScore(transparent)).toBe(
+      await ImageProcessingService.computeBlurScore(opaque)
+    );
+  });
+
+  it('scores a flat image as 0', async () => {
+    const flat = await sharp({
+      create: { width: 64, height: 64, channels: 3, background: '#808080' },
+    })
+      .png()
+      .toBuffer();
+
+    expect(await ImageProcessingService.computeBlurScore(flat)).toBe(0);
+  });
+});
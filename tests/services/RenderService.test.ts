@@ -0,0 +1,55 @@
+import { RenderService } from '../../src/services/RenderService';
+
+describe('RenderService.parse', () => {
+  it('accepts a valid request with defaults', () => {
+    const { request, errors } = RenderService.parse({ w: '1920', h: '1080' });
+
+    expect(errors).toEqual([]);
+    expect(request).toEqual({ width: 1920, height: 1080, dpr: 1, fit: 'cover', format: 'jpeg' });
+  });
+
+  it('negotiates the format from the Accept header', () => {
+    const accept = 'image/avif,image/webp,image/*;q=0.8';
+
+    expect(RenderService.parse({ w: '800', h: '600' }, accept).request?.format).toBe('avif');
+    expect(RenderService.parse({ w: '800', h: '600' }, 'image/webp').request?.format).toBe('webp');
+  });
+
+  it('prefers an explicit format over the Accept header', () => {
+    const { request } = RenderService.parse({ w: '800', h: '600', format: 'jpeg' }, 'image/avif');
+
+    expect(request?.format).toBe('jpeg');
+  });
+
+  it('requires w and h', () => {
+    const { request, errors } = RenderService.parse({ w: '800' });
+
+    expect(request).toBeUndefined();
+    expect(errors).toContain('w and h are required');
+  });
+
+  it('rejects sizes outside the policy', () => {
+    expect(RenderService.parse({ w: '8', h: '8' }).errors).toEqual([
+      `w and h must be at least ${RenderService.MIN_DIMENSION}px`,
+    ]);
+    expect(
+      RenderService.parse({ w: String(RenderService.MAX_DIMENSION), h: '4000', dpr: '2' }).errors
+    ).toContain(`w and h times dpr must be at most ${RenderService.MAX_DIMENSION}px`);
+    expect(RenderService.parse({ w: '5000', h: '600' }).errors).toContain(
+      `Aspect ratio must be at most ${RenderService.MAX_ASPECT_RATIO}:1`
+    );
+  });
+
+  it('rejects unknown dpr, fit and format values', () => {
+    const { request, errors } = RenderService.parse({
+      w: '800',
+      h: '600',
+      dpr: '1.25',
+      fit: 'stretch',
+      format: 'gif',
+    });
+
+    expect(request).toBeUndefined();
+    expect(errors).toHaveLength(3);
+  });
+});
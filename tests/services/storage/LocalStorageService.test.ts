@@ -0,0 +1,40 @@
+import { LocalStorageService } from '../../../src/services/storage/LocalStorageService';
+
+const env = { ...process.env };
+const publicId = 'wallpapers/original/dunes.jpg';
+
+afterEach(() => {
+  process.env = { ...env };
+});
+
+describe('LocalStorageService signed uploads', () => {
+  it('refuses to sign upload URLs without a dedicated secret', async () => {
+    delete process.env.LOCAL_STORAGE_SIGNING_SECRET;
+    process.env.JWT_SECRET = 'auth-secret';
+    const storage = new LocalStorageService({ root_path: '/tmp/uploads' });
+
+    await expect(
+      storage.getSignedUploadUrl(publicId, { contentType: 'image/jpeg' })
+    ).rejects.toThrow('LOCAL_STORAGE_SIGNING_SECRET');
+    const expires = Math.floor(Date.now() / 1000) + 60;
+    expect(storage.verifyUploadSignature(publicId, expires, 0, 'signature')).toBe(false);
+  });
+
+  it('accepts only the signature it issued', async () => {
+    process.env.LOCAL_STORAGE_SIGNING_SECRET = 'upload-secret';
+    const storage = new LocalStorageService({ root_path: '/tmp/uploads' });
+
+    const upload = await storage.getSignedUploadUrl(publicId, {
+      contentType: 'image/jpeg',
+      maxSize: 1024,
+    });
+    const url = new URL(upload.url);
+    const expires = parseInt(url.searchParams.get('expires')!);
+    const signature = url.searchParams.get('signature')!;
+
+    expect(storage.verifyUploadSignature(publicId, expires, 1024, signature)).toBe(true);
+    expect(storage.verifyUploadSignature(publicId, expires, 4096, signature)).toBe(false);
+    expect(storage.verifyUploadSignature('wallpapers/original/x.jpg', expires, 1024, signature))
+      .toBe(false);
+  });
+});
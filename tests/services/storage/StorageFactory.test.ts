@@ -0,0 +1,68 @@
+import pool from '../../../src/config/database';
+import { StorageFactory } from '../../../src/services/storage/StorageFactory';
+import { EncryptionUtil } from '../../../src/utils/encryption.util';
+
+jest.mock('../../../src/config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+const query = jest.mocked(pool.query) as unknown as jest.Mock;
+const env = { ...process.env };
+
+const provider = (id: number, provider_name: string, config: Record<string, any>) => ({
+  id,
+  provider_name,
+  config,
+  is_active: 1,
+  storage_cost_per_gb: '0',
+  egress_cost_per_gb: '0',
+});
+
+beforeEach(() => {
+  query.mockReset();
+  StorageFactory.reset();
+  process.env.STORAGE_ENCRYPTION_KEY = 'old-key';
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  process.env = { ...env };
+});
+
+describe('StorageFactory with a provider that cannot be decrypted', () => {
+  it('skips it, marks it unhealthy and keeps the other providers', async () => {
+    const s3 = provider(1, 's3', {
+      bucket_name: 'walls',
+      region: 'eu-west-1',
+      access_key_id: 'AKIA',
+      secret_access_key: EncryptionUtil.encrypt('secret'),
+    });
+    process.env.STORAGE_ENCRYPTION_KEY = 'rotated-key';
+    query.mockResolvedValue([[s3, provider(2, 'local', { root_path: '/tmp/walls' })]]);
+
+    const active = await StorageFactory.getActiveProviders();
+    const local = await StorageFactory.getLocalServices();
+
+    expect(active.map((p) => p.id)).toEqual([2]);
+    expect(local).toHaveLength(1);
+    expect(StorageFactory.isHealthy(1)).toBe(false);
+    expect(StorageFactory.isHealthy(2)).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(
+      'Skipping storage provider 1:',
+      expect.stringContaining('STORAGE_ENCRYPTION_KEY')
+    );
+  });
+
+  it('refuses to fall back to the env account when no active provider is readable', async () => {
+    const cloudinary = provider(3, 'cloudinary', {
+      cloud_name: 'walls',
+      api_key: 'key',
+      api_secret: EncryptionUtil.encrypt('secret'),
+    });
+    process.env.STORAGE_ENCRYPTION_KEY = 'rotated-key';
+    query.mockResolvedValue([[cloudinary]]);
+
+    await expect(StorageFactory.getActiveService()).rejects.toThrow('could be decrypted');
+  });
+});
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import { StorageMigrationService } from '../../../src/services/storage/StorageMigrationService';
+import { StorageFactory } from '../../../src/services/storage/StorageFactory';
+import { StorageMigrationModel } from '../../../src/models/StorageMigration.model';
+import { WallpaperModel } from '../../../src/models/Wallpaper.model';
+import { WallpaperResolutionModel } from '../../../src/models/WallpaperResolution.model';
+import { WallpaperFormatModel } from '../../../src/models/WallpaperFormat.model';
+import {
+  StorageMigration,
+  StorageMigrationItemStatus,
+  StorageMigrationStatus,
+} from '../../../src/types';
+
+jest.mock('axios');
+jest.mock('../../../src/services/storage/StorageFactory');
+jest.mock('../../../src/models/StorageMigration.model');
+jest.mock('../../../src/models/Wallpaper.model');
+jest.mock('../../../src/models/WallpaperResolution.model');
+jest.mock('../../../src/models/WallpaperFormat.model');
+
+const migrations = jest.mocked(StorageMigrationModel);
+const target = { upload: jest.fn(), delete: jest.fn() };
+
+const migration = (overrides: Partial<StorageMigration> = {}): StorageMigration => ({
+  id: 1,
+  target_provider_id: 2,
+  status: StorageMigrationStatus.PENDING,
+  dry_run: 0,
+  total_wallpapers: 0,
+  processed_wallpapers: 0,
+  failed_wallpapers: 0,
+  last_wallpaper_id: 0,
+  started_by: 1,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+const wallpaper = (id: number) =>
+  ({ id, slug: `wallpaper-${id}`, original_url: `https://old/${id}.jpg`, crop_revision: 0 }) as any;
+
+// Batches handed out by getNextWallpapers, in order
+const batches = (...lists: number[][]) => {
+  for (const list of [...lists, []]) {
+    migrations.getNextWallpapers.mockResolvedValueOnce(list.map(wallpaper));
+  }
+};
+
+const run = (id: number) => StorageMigrationService['run'](id);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.mocked(StorageFactory.getServiceById).mockResolvedValue(target as any);
+  jest.mocked(WallpaperResolutionModel.getByWallpaperId).mockResolvedValue([]);
+  jest.mocked(WallpaperFormatModel.getByWallpaperId).mockResolvedValue([]);
+  jest.mocked(axios.get).mockResolvedValue({ data: Buffer.from('image') });
+  target.upload.mockImplementation(async (_buffer, options) => ({
+    url: `https://new/${options.filename}.jpg`,
+    publicId: `${options.folder}/${options.filename}`,
+    size: 5,
+  }));
+});
+
+describe('StorageMigrationService.run', () => {
+  it('counts the wallpapers and walks every batch on a first start', async () => {
+    const job = migration();
+    migrations.findById.mockResolvedValue(job);
+    migrations.countWallpapers.mockResolvedValue(3);
+    batches([1, 2], [3]);
+
+    await run(job.id);
+
+    expect(migrations.update).toHaveBeenCalledWith(
+      job.id,
+      expect.objectContaining({ status: StorageMigrationStatus.RUNNING, total_wallpapers: 3 })
+    );
+    expect(migrations.getNextWallpapers.mock.calls.map((call) => call[1])).toEqual([0, 2, 3]);
+    expect(migrations.update).toHaveBeenLastCalledWith(
+      job.id,
+      expect.objectContaining({ status: StorageMigrationStatus.COMPLETED })
+    );
+  });
+
+  it('resumes after the checkpoint without recounting', async () => {
+    const job = migration({
+      status: StorageMigrationStatus.RUNNING,
+      started_at: new Date(),
+      total_wallpapers: 10,
+      processed_wallpapers: 7,
+      failed_wallpapers: 1,
+      last_wallpaper_id: 42,
+    });
+    migrations.findById.mockResolvedValue(job);
+    batches([43, 50]);
+
+    await run(job.id);
+
+    expect(migrations.countWallpapers).not.toHaveBeenCalled();
+    expect(migrations.getNextWallpapers).toHaveBeenNthCalledWith(1, job, 42, expect.any(Number));
+    expect(migrations.update).toHaveBeenCalledWith(job.id, {
+      processed_wallpapers: 8,
+      failed_wallpapers: 1,
+      last_wallpaper_id: 43,
+    });
+    expect(migrations.update).toHaveBeenCalledWith(job.id, {
+      processed_wallpapers: 9,
+      failed_wallpapers: 1,
+      last_wallpaper_id: 50,
+    });
+  });
+
+  it('moves the checkpoint only after the item is saved', async () => {
+    const job = migration();
+    migrations.findById.mockResolvedValue(job);
+    migrations.countWallpapers.mockResolvedValue(1);
+    batches([5]);
+
+    await run(job.id);
+
+    const saved = migrations.saveItem.mock.invocationCallOrder[0];
+    const checkpoint = migrations.update.mock.calls.findIndex(
+      (call) => call[1].last_wallpaper_id === 5
+    );
+    expect(saved).toBeLessThan(migrations.update.mock.invocationCallOrder[checkpoint]);
+    expect(migrations.saveItem).toHaveBeenCalledWith(
+      job.id,
+      5,
+      StorageMigrationItemStatus.MIGRATED,
+      expect.any(Array),
+      undefined
+    );
+    expect(WallpaperModel.update).toHaveBeenCalledWith(
+      5,
+      expect.objectContaining({ original_url: 'https://new/wallpaper-5.jpg', storage_provider_id: 2 })
+    );
+  });
+
+  it('stops without completing once the job is cancelled', async () => {
+    const job = migration();
+    migrations.findById
+      .mockResolvedValueOnce(job)
+      .mockResolvedValueOnce({ ...job, status: StorageMigrationStatus.RUNNING })
+      .mockResolvedValue({ ...job, status: StorageMigrationStatus.CANCELLED });
+    migrations.countWallpapers.mockResolvedValue(2);
+    batches([1, 2]);
+
+    await run(job.id);
+
+    expect(migrations.saveItem).toHaveBeenCalledTimes(1);
+    expect(migrations.update).not.toHaveBeenCalledWith(
+      job.id,
+      expect.objectContaining({ status: StorageMigrationStatus.COMPLETED })
+    );
+  });
+
+  it('counts a failed copy, discards it and keeps the old URLs', async () => {
+    const job = migration();
+    migrations.findById.mockResolvedValue(job);
+    migrations.countWallpapers.mockResolvedValue(1);
+    batches([9]);
+    // The copy reads back different bytes than the source
+    jest
+      .mocked(axios.get)
+      .mockResolvedValueOnce({ data: Buffer.from('image') })
+      .mockResolvedValueOnce({ data: Buffer.from('broken') });
+
+    await run(job.id);
+
+    expect(target.delete).toHaveBeenCalledWith('wallpapers/original/wallpaper-9');
+    expect(WallpaperModel.update).not.toHaveBeenCalled();
+    expect(migrations.update).toHaveBeenCalledWith(job.id, {
+      processed_wallpapers: 1,
+      failed_wallpapers: 1,
+      last_wallpaper_id: 9,
+    });
+  });
+});